@@ -0,0 +1,67 @@
+/**
+ * Recordings encrypted by the app (see recordingEncryption.ts there):
+ *   "AREC" | format version (1 byte) | key version (uint32) | wrapped key length (uint16) | wrapped key
+ *   | IV (12 bytes) | ciphertext | GCM tag (16 bytes)
+ * The worker never sees the app's local key, only the unwrapped data key of the objects a job needs
+ */
+
+const MAGIC = "AREC";
+const FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+
+export const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+
+export function isEncryptedRecording(buffer) {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, MAGIC.length));
+  return String.fromCharCode(...bytes) === MAGIC;
+}
+
+export async function decryptRecording(buffer, dataKey) {
+  const bytes = new Uint8Array(buffer);
+  const headerLength = getHeaderLength(bytes);
+  const iv = bytes.subarray(headerLength, headerLength + IV_LENGTH);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, additionalData: bytes.subarray(0, headerLength) },
+    await importDataKey(dataKey, "decrypt"),
+    bytes.subarray(headerLength + IV_LENGTH)
+  );
+  return plaintext;
+}
+
+/**
+ * Encrypts with a data key the app created for this object; the header carrying its wrapped form
+ * comes from the app as well
+ */
+export async function encryptRecording(buffer, dataKey, header) {
+  const headerBytes = fromBase64(header);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: headerBytes },
+    await importDataKey(dataKey, "encrypt"),
+    buffer
+  );
+
+  const result = new Uint8Array(headerBytes.length + IV_LENGTH + ciphertext.byteLength);
+  result.set(headerBytes, 0);
+  result.set(iv, headerBytes.length);
+  result.set(new Uint8Array(ciphertext), headerBytes.length + IV_LENGTH);
+  return result.buffer;
+}
+
+function getHeaderLength(bytes) {
+  if (!isEncryptedRecording(bytes.buffer) || bytes[MAGIC.length] !== FORMAT_VERSION) {
+    throw new Error("Object is not an encrypted recording of a supported format");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return MAGIC.length + 7 + view.getUint16(MAGIC.length + 5);
+}
+
+function importDataKey(dataKey, usage) {
+  return crypto.subtle.importKey("raw", fromBase64(dataKey), "AES-GCM", false, [usage]);
+}
+
+function fromBase64(value) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,57 @@
+/**
+ * Audio formats the recorder can produce
+ * The file extension of an object key decides its format; the content type stored
+ * with the object wins when it is set
+ */
+
+import { concatenateWav } from "./wav.js";
+import { concatenateWebm } from "./webm.js";
+
+const AUDIO_FORMATS = {
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+};
+
+const DEFAULT_EXTENSION = "webm";
+
+export function getAudioFormat(key, contentType) {
+  const extension = key.split("/").pop().split(".").pop().toLowerCase();
+  const knownExtension = AUDIO_FORMATS[extension] ? extension : DEFAULT_EXTENSION;
+
+  return {
+    extension: knownExtension,
+    contentType: contentType || AUDIO_FORMATS[knownExtension],
+  };
+}
+
+/**
+ * Joins standalone recordings of the same format into one file
+ * WebM is remuxed and WAV gets a new header; Ogg pages from separate recordings form a valid
+ * chained stream and MP3 frames are self-delimiting, so those are joined byte for byte
+ */
+export function concatenateAudio(buffers, extension) {
+  switch (extension) {
+    case "webm":
+      return concatenateWebm(buffers);
+    case "wav":
+      return concatenateWav(buffers);
+    case "ogg":
+    case "mp3":
+      return joinBytes(buffers);
+    default:
+      throw new Error(`Cannot join recordings in ${extension} format`);
+  }
+}
+
+function joinBytes(buffers) {
+  const parts = buffers.map((buffer) => new Uint8Array(buffer));
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -3,145 +3,91 @@
  * Processes audio files uploaded to R2 storage
  */
 
+import { getTranscriptionProvider } from "./providers/index.js";
+import { JobError, TERMINAL_JOB_STATUSES, createJob, loadJob, updateJob } from "./jobs.js";
+import { concatenateAudio, getAudioFormat } from "./formats.js";
+import { ENCRYPTION_ALGORITHM, decryptRecording, encryptRecording, isEncryptedRecording } from "./envelope.js";
+import { buildTranscriptionRecord } from "./transcript.js";
+
+// Joining holds every segment, the joined copy and (when encrypted) the decrypted and re-encrypted copies in
+// memory at once, so sessions are capped well below the Worker's 128 MB memory limit
+const DEFAULT_MAX_CONCATENATE_BYTES = 24 * 1024 * 1024;
+
 export default {
-  async fetch(request, env) {
+  async fetch(request, env, ctx) {
+    const url = new URL(request.url);
+    const jobMatch = url.pathname.match(/^\/jobs\/([^/]+)$/);
+
+    if (request.method === "GET" && jobMatch) {
+      const job = await loadJob(env, jobMatch[1]);
+      if (!job) {
+        return jsonResponse({ success: false, error: "Job not found" }, 404);
+      }
+      return jsonResponse({ success: true, job });
+    }
+
     if (request.method !== "POST") {
       return new Response("Method not allowed", { status: 405 });
     }
 
     try {
-      const url = new URL(request.url);
-
       if (url.pathname === "/transcribe") {
         console.log("Received transcription request");
 
+        let requestData;
         try {
-          let requestData;
-          try {
-            requestData = await request.json();
-            console.log(`Transcription request for key: ${requestData.key}`);
-          } catch (parseError) {
-            console.error("Error parsing request JSON:", parseError);
-            return new Response(
-              JSON.stringify({
-                success: false,
-                error: "Invalid JSON in request body",
-              }),
-              {
-                status: 400,
-                headers: { "Content-Type": "application/json" },
-              }
-            );
-          }
-
-          const { key } = requestData;
-
-          if (!key) {
-            console.error("Missing key in transcription request");
-            return new Response(
-              JSON.stringify({
-                success: false,
-                error: "Missing required parameter: key",
-              }),
-              {
-                status: 400,
-                headers: { "Content-Type": "application/json" },
-              }
-            );
-          }
-
-          console.log(`Fetching audio file from R2: ${key}`);
-          const audioFile = await env.AUDIO_BUCKET.get(key);
-          if (!audioFile) {
-            console.error(`Audio file not found in R2: ${key}`);
-            return new Response(
-              JSON.stringify({
-                success: false,
-                error: "Audio file not found",
-              }),
-              {
-                status: 404,
-                headers: { "Content-Type": "application/json" },
-              }
-            );
-          }
-
-          console.log(`Reading audio data for ${key}, size: ${audioFile.size} bytes`);
-          const audioData = await audioFile.arrayBuffer();
-          console.log(`Successfully loaded audio data: ${audioData.byteLength} bytes`);
-
-          console.log("Sending audio to transcription service");
-          const startTime = Date.now();
-          const transcriptionResult = await sendToTranscriptionService(audioData, env);
-          const duration = Date.now() - startTime;
-          console.log(`Transcription service completed in ${duration}ms`);
-
-          const transcriptionPreview = transcriptionResult.text.substring(0, 50);
-          console.log(
-            `Transcription result: "${transcriptionPreview}${transcriptionResult.text.length > 50 ? "..." : ""}" (${
-              transcriptionResult.text.length
-            } characters)`
-          );
-
-          const filename = key.split("/").pop();
+          requestData = await request.json();
+          console.log(`Transcription request for key: ${requestData.key}`);
+        } catch (parseError) {
+          console.error("Error parsing request JSON:", parseError);
+          return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+        }
 
-          let r2FolderName = env.POC_AUDIO_RECORDER_TRANSCRIPTION_R2_FOLDER_NAME;
+        // decryptionKey is the data key of an encrypted recording; it is only held in memory for this
+        // job and never written to R2 or to a queue message
+        const { key, decryptionKey } = requestData;
 
-          if (!r2FolderName) {
-            const pathParts = key.split("/");
-            if (pathParts.length > 1) {
-              r2FolderName = pathParts[0];
-            } else {
-              r2FolderName = "audio";
-            }
-            console.log(`R2_FOLDER_NAME not set in environment, using "${r2FolderName}" from path`);
-          }
+        if (!key) {
+          console.error("Missing key in transcription request");
+          return jsonResponse({ success: false, error: "Missing required parameter: key" }, 400);
+        }
 
-          console.log(`Using folder name "${r2FolderName}" for transcription storage`);
+        const audioHead = await env.AUDIO_BUCKET.head(key);
+        if (!audioHead) {
+          console.error(`Audio file not found in R2: ${key}`);
+          return jsonResponse({ success: false, error: "Audio file not found" }, 404);
+        }
 
-          const transcriptionKey = `${r2FolderName}/transcriptions/${filename}.json`;
-          console.log(`Storing transcription result in R2: ${transcriptionKey}`);
+        const job = await createJob(env, key, decryptionKey ? { encrypted: true } : {});
 
-          await env.AUDIO_BUCKET.put(
-            transcriptionKey,
-            JSON.stringify({
-              transcription: transcriptionResult.text,
-              processedAt: new Date().toISOString(),
+        // Queue messages are durable and can be redelivered, so encrypted jobs always run in this invocation
+        if (env.TRANSCRIPTION_QUEUE && !decryptionKey) {
+          await env.TRANSCRIPTION_QUEUE.send({ jobId: job.id });
+          console.log(`Transcription job ${job.id} sent to queue`);
+        } else {
+          ctx.waitUntil(
+            processTranscriptionJob(job.id, env, decryptionKey).catch((error) => {
+              console.error(`Could not run transcription job ${job.id}:`, error);
             })
           );
-          console.log("Transcription result stored successfully");
-
-          return new Response(
-            JSON.stringify({
-              success: true,
-              transcription: transcriptionResult.text,
-            }),
-            {
-              headers: { "Content-Type": "application/json" },
-            }
-          );
-        } catch (error) {
-          console.error("Transcription error:", error);
-
-          if (error.name === "TypeError" || error.name === "SyntaxError") {
-            console.error("Data parsing error:", error.message);
-          } else if (error.message && error.message.includes("network")) {
-            console.error("Network error during transcription:", error.message);
-          } else if (error.message && error.message.includes("timeout")) {
-            console.error("Timeout error during transcription:", error.message);
-          }
+        }
 
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: error.message || "Transcription failed",
-            }),
-            {
-              status: 500,
-              headers: { "Content-Type": "application/json" },
-            }
-          );
+        return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
+      } else if (url.pathname === "/concatenate") {
+        let requestData;
+        try {
+          requestData = await request.json();
+        } catch (parseError) {
+          console.error("Error parsing request JSON:", parseError);
+          return jsonResponse({ success: false, error: "Invalid JSON in request body" }, 400);
+        }
+
+        if (!requestData.key) {
+          console.error("Missing key in concatenation request");
+          return jsonResponse({ success: false, error: "Missing required parameter: key" }, 400);
         }
+
+        return await concatenateSession(requestData.key, env, requestData.encryption);
       } else {
         const { key, audioUrl } = await request.json();
 
@@ -208,72 +154,270 @@ export default {
       console.error(`Error processing ${object.key}:`, error);
     }
   },
+
+  async queue(batch, env) {
+    for (const message of batch.messages) {
+      try {
+        await processTranscriptionJob(message.body.jobId, env);
+        message.ack();
+      } catch (error) {
+        console.error(`Could not run transcription job ${message.body.jobId}, retrying:`, error);
+        message.retry();
+      }
+    }
+  },
 };
 
 /**
- * Function for sending audio to OpenAI's transcription service
+ * Runs a queued transcription job and records its outcome in R2
+ * Only rejects when the job cannot be loaded; once it has started, every failure is recorded on the job
  */
-async function sendToTranscriptionService(audioData, env) {
+async function processTranscriptionJob(jobId, env, decryptionKey) {
+  let job = await loadJob(env, jobId);
+  if (!job) {
+    console.error(`Transcription job not found: ${jobId}`);
+    return;
+  }
+
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+    console.log(`Transcription job ${jobId} already ${job.status}, skipping`);
+    return;
+  }
+
   try {
-    console.log(`Preparing audio data for transcription, size: ${audioData.byteLength} bytes`);
+    job = await updateJob(env, job, { status: "running", startedAt: new Date().toISOString() });
+
+    const { transcriptionKey, record } = await transcribeAudio(job.key, env, decryptionKey);
+    await updateJob(env, job, {
+      status: "succeeded",
+      completedAt: new Date().toISOString(),
+      transcriptionKey,
+      wordCount: record.transcription.split(/\s+/).filter(Boolean).length,
+      segmentCount: record.segments.length,
+    });
+  } catch (error) {
+    console.error(`Transcription job ${jobId} failed:`, error);
+    try {
+      await updateJob(env, job, {
+        status: "failed",
+        completedAt: new Date().toISOString(),
+        error: error.message || "Transcription failed",
+        errorCode: error instanceof JobError ? error.code : "failed",
+      });
+    } catch (updateError) {
+      console.error(`Could not record the failure of transcription job ${jobId}:`, updateError);
+    }
+  }
+}
+
+/**
+ * Transcribes an audio object and stores the result next to it in transcriptions/
+ * Encrypted recordings are decrypted in memory with the data key sent along with the job
+ */
+async function transcribeAudio(key, env, decryptionKey) {
+  console.log(`Fetching audio file from R2: ${key}`);
+  const audioFile = await env.AUDIO_BUCKET.get(key);
+  if (!audioFile) {
+    throw new JobError("not-found", "Audio file not found");
+  }
+
+  let audioData = await audioFile.arrayBuffer();
+  console.log(`Successfully loaded audio data: ${audioData.byteLength} bytes`);
 
-    if (!env.OPENAI_API_KEY) {
-      console.error("Missing OpenAI API key in environment variables");
-      throw new Error("API key not configured. Please set OPENAI_API_KEY in worker environment");
+  const encrypted = isEncryptedRecording(audioData);
+  if (encrypted) {
+    if (!decryptionKey) {
+      throw new Error("Recording is encrypted and no key was provided for this job");
     }
+    audioData = await decryptRecording(audioData, decryptionKey);
+    console.log(`Decrypted ${key}: ${audioData.byteLength} bytes`);
+  }
+
+  // The stored content type of an encrypted object describes the ciphertext, so the key decides
+  const format = getAudioFormat(key, encrypted ? undefined : audioFile.httpMetadata && audioFile.httpMetadata.contentType);
+  console.log(`Audio data for ${key} has type ${format.contentType}`);
+
+  console.log("Sending audio to transcription service");
+  const startTime = Date.now();
+  const transcriptionResult = await sendToTranscriptionService(audioData, env, format);
+  const duration = Date.now() - startTime;
+  console.log(`Transcription service completed in ${duration}ms`);
+
+  const transcriptionPreview = transcriptionResult.text.substring(0, 50);
+  console.log(
+    `Transcription result: "${transcriptionPreview}${transcriptionResult.text.length > 50 ? "..." : ""}" (${
+      transcriptionResult.text.length
+    } characters)`
+  );
+
+  const filename = key.split("/").pop();
+
+  let r2FolderName = env.POC_AUDIO_RECORDER_TRANSCRIPTION_R2_FOLDER_NAME;
+
+  if (!r2FolderName) {
+    const pathParts = key.split("/");
+    if (pathParts.length > 1) {
+      r2FolderName = pathParts[0];
+    } else {
+      r2FolderName = "audio";
+    }
+    console.log(`R2_FOLDER_NAME not set in environment, using "${r2FolderName}" from path`);
+  }
+
+  console.log(`Using folder name "${r2FolderName}" for transcription storage`);
 
-    const formData = new FormData();
-    console.log("Creating audio blob with type: audio/webm");
-    const audioBlob = new Blob([audioData], { type: "audio/webm" });
-    formData.append("file", audioBlob, "audio.webm");
-    formData.append("model", "whisper-1");
-    formData.append("language", "en");
+  const transcriptionKey = `${r2FolderName}/transcriptions/${filename}.json`;
+  console.log(`Storing transcription result in R2: ${transcriptionKey}`);
 
-    console.log("Sending request to OpenAI transcription API");
-    const startTime = Date.now();
+  const record = buildTranscriptionRecord(transcriptionResult, transcriptionResult.provider);
+  await env.AUDIO_BUCKET.put(transcriptionKey, JSON.stringify(record), {
+    httpMetadata: { contentType: "application/json" },
+  });
+  console.log("Transcription result stored successfully");
+
+  return { transcriptionKey, record };
+}
+
+/**
+ * Joins the segments of a finished recording session into a single object of the segments' format
+ * Encrypted segments need their data keys in encryption.segmentKeys, and the joined object is then
+ * encrypted with encryption.output, a fresh data key the app created for it
+ */
+async function concatenateSession(sessionKey, env, encryption) {
+  console.log(`Concatenation requested for session: ${sessionKey}`);
+
+  const sessionObject = await env.AUDIO_BUCKET.get(sessionKey);
+  if (!sessionObject) {
+    console.error(`Session not found in R2: ${sessionKey}`);
+    return jsonResponse({ success: false, error: "Recording session not found" }, 404);
+  }
+
+  const session = await sessionObject.json();
+
+  if (session.status === "ready" && session.assetKey) {
+    console.log(`Session ${session.id} already joined into ${session.assetKey}`);
+    return jsonResponse({ success: true, session });
+  }
 
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${env.OPENAI_API_KEY}`,
+  if (session.totalSegments === undefined || session.segmentKeys.length !== session.totalSegments) {
+    console.error(`Session ${session.id} is still missing segments`);
+    return jsonResponse(
+      {
+        success: false,
+        error: `Session has ${session.segmentKeys.length} of ${session.totalSegments ?? "?"} segments uploaded`,
       },
-      body: formData,
+      409
+    );
+  }
+
+  const saveSession = (updated) =>
+    env.AUDIO_BUCKET.put(sessionKey, JSON.stringify(updated, null, 2), {
+      httpMetadata: { contentType: "application/json" },
     });
 
-    const requestDuration = Date.now() - startTime;
-    console.log(`OpenAI API response received in ${requestDuration}ms, status: ${response.status}`);
+  const maxBytes = Number(env.MAX_CONCATENATE_BYTES) || DEFAULT_MAX_CONCATENATE_BYTES;
+  const heads = await Promise.all(session.segmentKeys.map((segmentKey) => env.AUDIO_BUCKET.head(segmentKey)));
+  const totalBytes = heads.reduce((total, head) => total + (head ? head.size : 0), 0);
+  if (totalBytes > maxBytes) {
+    const error = `Session is ${Math.ceil(totalBytes / 1048576)} MB, more than the ${Math.floor(
+      maxBytes / 1048576
+    )} MB the worker can join in memory; its segments are kept as they are`;
+    console.error(`Not joining session ${session.id}: ${error}`);
+    await saveSession({ ...session, status: "failed", error, updatedAt: new Date().toISOString() });
+    return jsonResponse({ success: false, error, code: "session-too-large" }, 413);
+  }
 
-    if (!response.ok) {
-      let errorBody = "";
-      try {
-        errorBody = await response.text();
-        console.error(`API error response: ${errorBody}`);
-      } catch (readError) {
-        console.error("Could not read error response body:", readError);
-      }
+  await saveSession({ ...session, status: "concatenating", updatedAt: new Date().toISOString() });
 
-      if (response.status === 401) {
-        console.error("Authentication error: Invalid API key or token");
-      } else if (response.status === 429) {
-        console.error("Rate limit exceeded or quota reached");
-      } else if (response.status >= 500) {
-        console.error("OpenAI server error");
+  try {
+    const buffers = [];
+    for (const segmentKey of session.segmentKeys) {
+      const segment = await env.AUDIO_BUCKET.get(segmentKey);
+      if (!segment) {
+        throw new Error(`Segment not found: ${segmentKey}`);
       }
 
-      throw new Error(
-        `Transcription API error: ${response.status} ${response.statusText}${errorBody ? ` - ${errorBody}` : ""}`
-      );
+      const data = await segment.arrayBuffer();
+      if (isEncryptedRecording(data)) {
+        const dataKey = encryption && encryption.segmentKeys && encryption.segmentKeys[segmentKey];
+        if (!dataKey || !encryption.output) {
+          throw new Error(`No encryption keys provided for encrypted segment ${segmentKey}`);
+        }
+        buffers.push(await decryptRecording(data, dataKey));
+      } else {
+        buffers.push(data);
+      }
     }
 
-    console.log("Parsing JSON response from transcription API");
-    const result = await response.json();
+    const format = getAudioFormat(session.segmentKeys[0]);
+    console.log(`Joining ${buffers.length} ${format.extension} segments for session ${session.id}`);
+    const output = encryption && encryption.output;
+    const concatenated = concatenateAudio(buffers, format.extension);
+    const joined = output ? await encryptRecording(concatenated, output.dataKey, output.header) : concatenated;
+
+    const sessionFolder = sessionKey.substring(0, sessionKey.lastIndexOf("/"));
+    const assetKey = `${sessionFolder}/${session.id}.${format.extension}`;
+
+    await env.AUDIO_BUCKET.put(assetKey, joined, {
+      httpMetadata: { contentType: output ? "application/octet-stream" : format.contentType },
+      customMetadata: {
+        "duration-ms": String(session.totalDurationMs),
+        ...(session.trimmedSilenceMs !== undefined ? { "trimmed-silence-ms": String(session.trimmedSilenceMs) } : {}),
+        ...(output
+          ? { encryption: ENCRYPTION_ALGORITHM, "key-version": String(output.envelope.keyVersion) }
+          : {}),
+      },
+    });
+    console.log(`Stored joined recording in R2: ${assetKey} (${joined.byteLength} bytes${output ? ", encrypted" : ""})`);
+
+    const readySession = {
+      ...session,
+      status: "ready",
+      assetKey,
+      ...(output ? { assetEncryption: output.envelope } : {}),
+      error: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    await saveSession(readySession);
+
+    return jsonResponse({ success: true, session: readySession });
+  } catch (error) {
+    console.error(`Error joining session ${session.id}:`, error);
+    await saveSession({ ...session, status: "failed", error: error.message, updatedAt: new Date().toISOString() });
+    return jsonResponse({ success: false, error: error.message || "Concatenation failed" }, 500);
+  }
+}
 
-    if (!result.text) {
-      console.error("Invalid response format from OpenAI API:", result);
-      throw new Error("Invalid response format from transcription service");
-    }
+function jsonResponse(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-    const wordCount = result.text.split(/\s+/).length;
+/**
+ * Sends audio to the transcription provider selected by TRANSCRIPTION_PROVIDER
+ */
+async function sendToTranscriptionService(audioData, env, format) {
+  try {
+    const provider = getTranscriptionProvider(env);
+    const language = env.TRANSCRIPTION_LANGUAGE || undefined;
+    console.log(
+      `Sending ${audioData.byteLength} bytes to transcription provider "${provider.name}"${
+        language ? ` (language: ${language})` : ""
+      }`
+    );
+
+    const result = {
+      ...(await provider.transcribe(audioData, {
+        language,
+        contentType: format.contentType,
+        filename: `audio.${format.extension}`,
+      })),
+      provider: provider.name,
+    };
+
+    const wordCount = result.text.split(/\s+/).filter(Boolean).length;
     console.log(`Transcription completed successfully: ${wordCount} words, ${result.text.length} characters`);
 
     return result;
@@ -0,0 +1,62 @@
+/**
+ * Transcription job state, persisted in R2 under jobs/<id>.json
+ * Status moves queued -> running -> succeeded | failed
+ */
+
+const JOBS_PREFIX = "jobs/";
+
+export const TERMINAL_JOB_STATUSES = ["succeeded", "failed"];
+
+/**
+ * A failure whose code is stored on the job as errorCode ("auth", "not-found"), so the app can
+ * tell failures apart without reading the message. Other errors are stored as "failed"
+ */
+export class JobError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = "JobError";
+    this.code = code;
+  }
+}
+
+export function getJobKey(jobId) {
+  return `${JOBS_PREFIX}${jobId}.json`;
+}
+
+export async function createJob(env, key, details = {}) {
+  const now = new Date().toISOString();
+  const job = {
+    id: crypto.randomUUID(),
+    key,
+    ...details,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveJob(env, job);
+  console.log(`Created transcription job ${job.id} for ${key}`);
+  return job;
+}
+
+export async function loadJob(env, jobId) {
+  if (!/^[0-9a-f-]{36}$/i.test(jobId)) {
+    return null;
+  }
+
+  const object = await env.AUDIO_BUCKET.get(getJobKey(jobId));
+  return object ? await object.json() : null;
+}
+
+export async function updateJob(env, job, changes) {
+  const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  await saveJob(env, updated);
+  console.log(`Transcription job ${updated.id} is ${updated.status}`);
+  return updated;
+}
+
+async function saveJob(env, job) {
+  await env.AUDIO_BUCKET.put(getJobKey(job.id), JSON.stringify(job), {
+    httpMetadata: { contentType: "application/json" },
+  });
+}
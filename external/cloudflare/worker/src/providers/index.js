@@ -0,0 +1,50 @@
+/**
+ * Transcription provider registry
+ * TRANSCRIPTION_PROVIDER selects the implementation; every provider exposes
+ * transcribe(audioData, { language, contentType, filename }) and resolves to
+ * { text, language?, duration?, segments?[{ start, end, text, speaker?, words? }], words?[{ word, start, end }] }
+ */
+
+import { createMockProvider } from "./mock.js";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible.js";
+import { createWorkersAiProvider } from "./workersAi.js";
+
+const DEFAULT_PROVIDER = "openai";
+
+const PROVIDERS = {
+  openai: (env) =>
+    createOpenAiCompatibleProvider({
+      name: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: env.OPENAI_API_KEY,
+      model: env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1",
+      requireApiKey: true,
+    }),
+  "openai-compatible": (env) => {
+    if (!env.TRANSCRIPTION_BASE_URL) {
+      throw new Error("TRANSCRIPTION_BASE_URL must be set for the openai-compatible provider");
+    }
+    return createOpenAiCompatibleProvider({
+      name: "openai-compatible",
+      baseUrl: env.TRANSCRIPTION_BASE_URL,
+      apiKey: env.TRANSCRIPTION_API_KEY,
+      model: env.TRANSCRIPTION_MODEL || "whisper-1",
+      requireApiKey: false,
+    });
+  },
+  "workers-ai": (env) => createWorkersAiProvider(env),
+  mock: () => createMockProvider(),
+};
+
+export function getTranscriptionProvider(env) {
+  const name = (env.TRANSCRIPTION_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const factory = PROVIDERS[name];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown TRANSCRIPTION_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+
+  return factory(env);
+}
@@ -0,0 +1,70 @@
+/**
+ * Deterministic provider for offline development and tests
+ * The same audio bytes always produce the same transcript, alternating between two speakers
+ */
+
+const SENTENCES = [
+  "Let's start with a quick round of updates.",
+  "The upload pipeline is working as expected.",
+  "We still need to review the transcription costs.",
+  "Can someone take the action item for the release notes?",
+  "I'll follow up with the team after this meeting.",
+  "That covers everything on the agenda for today.",
+];
+
+const MOCK_SPEAKERS = ["A", "B"];
+const WORD_SECONDS = 0.4;
+const PAUSE_SECONDS = 0.6;
+
+export function createMockProvider() {
+  return {
+    name: "mock",
+
+    async transcribe(audioData) {
+      const bytes = new Uint8Array(audioData);
+      const hash = fnv1a(bytes);
+      const sentenceCount = 1 + (bytes.byteLength % 4);
+
+      const segments = [];
+      let time = 0;
+      for (let i = 0; i < sentenceCount; i++) {
+        const text = SENTENCES[(hash + i) % SENTENCES.length];
+        const words = text.split(" ").map((word) => {
+          const timedWord = { word, start: round(time), end: round(time + WORD_SECONDS * 0.8) };
+          time += WORD_SECONDS;
+          return timedWord;
+        });
+
+        segments.push({
+          start: words[0].start,
+          end: words[words.length - 1].end,
+          text,
+          speaker: MOCK_SPEAKERS[i % MOCK_SPEAKERS.length],
+          words,
+        });
+        time += PAUSE_SECONDS;
+      }
+
+      console.log(`[mock] Generated ${sentenceCount} sentence(s) for ${bytes.byteLength} bytes`);
+      return {
+        text: segments.map((segment) => segment.text).join(" "),
+        language: "en",
+        duration: round(time),
+        segments,
+      };
+    },
+  };
+}
+
+function fnv1a(bytes) {
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function round(seconds) {
+  return Math.round(seconds * 100) / 100;
+}
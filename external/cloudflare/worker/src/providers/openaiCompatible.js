@@ -0,0 +1,98 @@
+/**
+ * Provider for OpenAI's transcription API and any server exposing the same
+ * /audio/transcriptions contract (faster-whisper-server, LocalAI, vLLM, ...)
+ * Requests verbose_json so segment and word timings come back when supported;
+ * segments carrying a speaker field (diarized_json, whisperX-style servers) keep it
+ */
+
+import { JobError } from "../jobs.js";
+
+export function createOpenAiCompatibleProvider({ name, baseUrl, apiKey, model, requireApiKey }) {
+  return {
+    name,
+
+    async transcribe(audioData, options = {}) {
+      console.log(`[${name}] Preparing audio data for transcription, size: ${audioData.byteLength} bytes`);
+
+      if (requireApiKey && !apiKey) {
+        console.error(`[${name}] Missing API key in environment variables`);
+        throw new JobError("auth", "API key not configured. Please set OPENAI_API_KEY in worker environment");
+      }
+
+      const formData = new FormData();
+      const audioBlob = new Blob([audioData], { type: options.contentType || "audio/webm" });
+      formData.append("file", audioBlob, options.filename || "audio.webm");
+      formData.append("model", model);
+      // gpt-4o transcription models only support plain json, which has no timing information,
+      // except the diarization model which returns speaker-labelled segments
+      const diarize = model.includes("diarize");
+      const verbose = !model.startsWith("gpt-4o");
+      if (diarize) {
+        formData.append("response_format", "diarized_json");
+        formData.append("chunking_strategy", "auto");
+      } else if (verbose) {
+        formData.append("response_format", "verbose_json");
+        formData.append("timestamp_granularities[]", "segment");
+        formData.append("timestamp_granularities[]", "word");
+      }
+      if (options.language) {
+        formData.append("language", options.language);
+      }
+
+      const endpoint = `${baseUrl.replace(/\/+$/, "")}/audio/transcriptions`;
+      console.log(`[${name}] Sending request to ${endpoint} with model ${model}`);
+      const startTime = Date.now();
+
+      const headers = {};
+      if (apiKey) {
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: formData,
+      });
+
+      console.log(`[${name}] API response received in ${Date.now() - startTime}ms, status: ${response.status}`);
+
+      if (!response.ok) {
+        let errorBody = "";
+        try {
+          errorBody = await response.text();
+          console.error(`[${name}] API error response: ${errorBody}`);
+        } catch (readError) {
+          console.error(`[${name}] Could not read error response body:`, readError);
+        }
+
+        if (response.status === 401) {
+          console.error("Authentication error: Invalid API key or token");
+        } else if (response.status === 429) {
+          console.error("Rate limit exceeded or quota reached");
+        } else if (response.status >= 500) {
+          console.error(`${name} server error`);
+        }
+
+        const message = `Transcription API error: ${response.status} ${response.statusText}${
+          errorBody ? ` - ${errorBody}` : ""
+        }`;
+        throw response.status === 401 || response.status === 403 ? new JobError("auth", message) : new Error(message);
+      }
+
+      const result = await response.json();
+
+      if (typeof result.text !== "string") {
+        console.error(`[${name}] Invalid response format:`, result);
+        throw new Error("Invalid response format from transcription service");
+      }
+
+      return {
+        text: result.text,
+        language: result.language,
+        duration: result.duration,
+        segments: result.segments,
+        words: result.words,
+      };
+    },
+  };
+}
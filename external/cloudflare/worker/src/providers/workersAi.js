@@ -0,0 +1,54 @@
+/**
+ * Provider backed by the Cloudflare Workers AI binding
+ */
+
+const DEFAULT_MODEL = "@cf/openai/whisper";
+
+export function createWorkersAiProvider(env) {
+  const model = env.WORKERS_AI_MODEL || DEFAULT_MODEL;
+
+  return {
+    name: "workers-ai",
+
+    async transcribe(audioData, options = {}) {
+      if (!env.AI) {
+        throw new Error("Workers AI binding not configured. Add an [ai] binding named AI to wrangler.toml");
+      }
+
+      const bytes = new Uint8Array(audioData);
+      console.log(`[workers-ai] Running ${model} on ${bytes.byteLength} bytes`);
+
+      // whisper-large-v3-turbo takes base64 audio, the original whisper models take a byte array
+      const input = model.includes("large-v3-turbo")
+        ? { audio: toBase64(bytes), ...(options.language ? { language: options.language } : {}) }
+        : { audio: [...bytes] };
+
+      const startTime = Date.now();
+      const result = await env.AI.run(model, input);
+      console.log(`[workers-ai] Completed in ${Date.now() - startTime}ms`);
+
+      if (!result || typeof result.text !== "string") {
+        console.error("[workers-ai] Invalid response format:", result);
+        throw new Error("Invalid response format from transcription service");
+      }
+
+      const info = result.transcription_info || {};
+      return {
+        text: result.text,
+        language: info.language,
+        duration: info.duration,
+        segments: result.segments,
+        words: result.words,
+      };
+    },
+  };
+}
+
+function toBase64(bytes) {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
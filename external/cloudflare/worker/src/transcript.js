@@ -0,0 +1,132 @@
+/**
+ * Stored transcription schema
+ *
+ * v1: { transcription, processedAt }
+ * v2: { schemaVersion, transcription, language, duration, segments[{ id, start, end, text, words? }], provider, processedAt }
+ *     Times are in seconds from the start of the audio; words are only present when the provider returns them
+ * v3: adds speakers[{ id, name }] and segments[].speaker when the provider returns diarization
+ *     Provider speaker labels are mapped to speaker_1, speaker_2, ... in order of first appearance
+ */
+
+export const TRANSCRIPTION_SCHEMA_VERSION = 3;
+
+const SEGMENT_GAP_SECONDS = 1.0;
+const MAX_SEGMENT_SECONDS = 15;
+
+export function buildTranscriptionRecord(result, providerName) {
+  const segments = normalizeSegments(result);
+  const speakers = assignSpeakers(segments);
+  const duration = result.duration ?? (segments.length ? segments[segments.length - 1].end : undefined);
+
+  return {
+    schemaVersion: TRANSCRIPTION_SCHEMA_VERSION,
+    transcription: result.text,
+    language: result.language,
+    duration,
+    segments,
+    speakers,
+    provider: providerName,
+    processedAt: new Date().toISOString(),
+  };
+}
+
+function normalizeSegments(result) {
+  const words = (result.words || []).map(normalizeWord).filter(Boolean);
+
+  if (Array.isArray(result.segments) && result.segments.length > 0) {
+    return result.segments.map((segment, index) => {
+      const start = Number(segment.start) || 0;
+      const end = Number(segment.end) || start;
+      const segmentWords = segment.words
+        ? segment.words.map(normalizeWord).filter(Boolean)
+        : words.filter((word) => word.start >= start && word.start < end);
+
+      return {
+        id: index,
+        start,
+        end,
+        text: String(segment.text || "").trim(),
+        ...(segment.speaker !== undefined && segment.speaker !== null ? { speaker: String(segment.speaker) } : {}),
+        ...(segmentWords.length ? { words: segmentWords } : {}),
+      };
+    });
+  }
+
+  if (words.length > 0) {
+    return segmentsFromWords(words);
+  }
+
+  return [];
+}
+
+function assignSpeakers(segments) {
+  const speakers = [];
+  const idsByLabel = new Map();
+
+  for (const segment of segments) {
+    if (segment.speaker === undefined) {
+      continue;
+    }
+
+    if (!idsByLabel.has(segment.speaker)) {
+      const number = speakers.length + 1;
+      const speaker = { id: `speaker_${number}`, name: `Speaker ${number}` };
+      idsByLabel.set(segment.speaker, speaker.id);
+      speakers.push(speaker);
+    }
+    segment.speaker = idsByLabel.get(segment.speaker);
+  }
+
+  return speakers;
+}
+
+/**
+ * Groups word timings into segments at sentence ends, long pauses, or every MAX_SEGMENT_SECONDS
+ */
+export function segmentsFromWords(words) {
+  const segments = [];
+  let current = [];
+
+  const flush = () => {
+    if (!current.length) return;
+    segments.push({
+      id: segments.length,
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((word) => word.word).join(" ").replace(/\s+([,.!?;:])/g, "$1"),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (word.start - previous.end > SEGMENT_GAP_SECONDS || word.end - current[0].start > MAX_SEGMENT_SECONDS)
+    ) {
+      flush();
+    }
+
+    current.push(word);
+
+    if (/[.!?]$/.test(word.word)) {
+      flush();
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+function normalizeWord(word) {
+  if (!word || typeof word.word !== "string") {
+    return null;
+  }
+  const start = Number(word.start) || 0;
+  return {
+    word: word.word.trim(),
+    start,
+    end: Number(word.end) || start,
+  };
+}
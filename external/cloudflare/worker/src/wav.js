@@ -0,0 +1,99 @@
+/**
+ * Minimal RIFF/WAVE joiner
+ * Keeps the fmt chunk of the first file, appends the data chunk of every file
+ * and rewrites the RIFF and data sizes
+ */
+
+export function concatenateWav(buffers) {
+  if (!buffers.length) {
+    throw new Error("No WAV segments to concatenate");
+  }
+
+  const files = buffers.map((buffer, index) => {
+    try {
+      return parseWav(new Uint8Array(buffer));
+    } catch (error) {
+      throw new Error(`Segment ${index} is not a valid WAV file: ${error.message}`);
+    }
+  });
+
+  const format = files[0].format;
+  files.forEach((file, index) => {
+    if (!sameBytes(file.format, format)) {
+      throw new Error(`Segment ${index} has a different sample format`);
+    }
+  });
+
+  const dataSize = files.reduce((sum, file) => sum + file.data.length, 0);
+  const fmtChunkSize = 8 + format.length + (format.length % 2);
+  const result = new Uint8Array(12 + fmtChunkSize + 8 + dataSize);
+  const view = new DataView(result.buffer);
+
+  writeTag(result, 0, "RIFF");
+  view.setUint32(4, result.length - 8, true);
+  writeTag(result, 8, "WAVE");
+
+  writeTag(result, 12, "fmt ");
+  view.setUint32(16, format.length, true);
+  result.set(format, 20);
+
+  const dataOffset = 12 + fmtChunkSize;
+  writeTag(result, dataOffset, "data");
+  view.setUint32(dataOffset + 4, dataSize, true);
+
+  let offset = dataOffset + 8;
+  for (const file of files) {
+    result.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  return result;
+}
+
+function parseWav(bytes) {
+  if (readTag(bytes, 0) !== "RIFF" || readTag(bytes, 8) !== "WAVE") {
+    throw new Error("Missing RIFF/WAVE header");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format = null;
+  let data = null;
+
+  let position = 12;
+  while (position + 8 <= bytes.length) {
+    const id = readTag(bytes, position);
+    const declaredSize = view.getUint32(position + 4, true);
+    const start = position + 8;
+    // Streaming encoders leave the data size at 0 or 0xffffffff, so the data chunk runs to the end of the file
+    const size = id === "data" && (declaredSize === 0 || declaredSize === 0xffffffff) ? bytes.length - start : declaredSize;
+    const end = Math.min(start + size, bytes.length);
+
+    if (id === "fmt ") {
+      format = bytes.subarray(start, end);
+    } else if (id === "data") {
+      data = bytes.subarray(start, end);
+    }
+
+    position = end + (size % 2);
+  }
+
+  if (!format || !data) {
+    throw new Error("Missing fmt or data chunk");
+  }
+
+  return { format, data };
+}
+
+function readTag(bytes, offset) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+function writeTag(bytes, offset, tag) {
+  for (let i = 0; i < 4; i++) {
+    bytes[offset + i] = tag.charCodeAt(i);
+  }
+}
+
+function sameBytes(a, b) {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
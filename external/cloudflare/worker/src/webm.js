@@ -0,0 +1,315 @@
+/**
+ * Minimal WebM (Matroska) remuxer
+ * Joins standalone MediaRecorder WebM files into a single playable file by
+ * keeping the first file's header/tracks and shifting every cluster timecode
+ */
+
+const ID_EBML = 0x1a45dfa3;
+const ID_SEGMENT = 0x18538067;
+const ID_INFO = 0x1549a966;
+const ID_TRACKS = 0x1654ae6b;
+const ID_CLUSTER = 0x1f43b675;
+const ID_TIMECODE = 0xe7;
+const ID_SIMPLE_BLOCK = 0xa3;
+const ID_BLOCK_GROUP = 0xa0;
+const ID_BLOCK = 0xa1;
+const ID_TIMECODE_SCALE = 0x2ad7b1;
+const ID_DURATION = 0x4489;
+
+const SEGMENT_LEVEL_IDS = new Set([
+  ID_INFO,
+  ID_TRACKS,
+  ID_CLUSTER,
+  0x114d9b74, // SeekHead
+  0x1c53bb6b, // Cues
+  0x1254c367, // Tags
+  0x1043a770, // Chapters
+  0x1941a469, // Attachments
+]);
+
+const DEFAULT_TIMECODE_SCALE = 1000000;
+const DEFAULT_FRAME_DURATION_MS = 20;
+
+export function concatenateWebm(buffers) {
+  if (!buffers.length) {
+    throw new Error("No WebM segments to concatenate");
+  }
+
+  const files = buffers.map((buffer, index) => {
+    try {
+      return parseWebm(new Uint8Array(buffer));
+    } catch (error) {
+      throw new Error(`Segment ${index} is not a valid WebM file: ${error.message}`);
+    }
+  });
+
+  const first = files[0];
+  const timecodeScale = readTimecodeScale(first.info);
+  const frameDuration = Math.max(1, Math.round((DEFAULT_FRAME_DURATION_MS * 1000000) / timecodeScale));
+
+  const clusters = [];
+  let offset = 0;
+
+  for (const file of files) {
+    if (!file.clusters.length) {
+      continue;
+    }
+
+    const base = file.clusters[0].timecode;
+    let fileEnd = 0;
+
+    for (const cluster of file.clusters) {
+      const timecode = cluster.timecode - base + offset;
+      clusters.push(buildElement(ID_CLUSTER, concatBytes([buildUintElement(ID_TIMECODE, timecode), ...cluster.children])));
+      fileEnd = Math.max(fileEnd, timecode + cluster.lastBlockOffset);
+    }
+
+    offset = fileEnd + frameDuration;
+  }
+
+  const info = rewriteDuration(first.info, offset);
+
+  return concatBytes([
+    first.ebmlHeader,
+    idBytes(ID_SEGMENT),
+    new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+    info,
+    first.tracks,
+    ...clusters,
+  ]);
+}
+
+function parseWebm(bytes) {
+  const header = readElementHeader(bytes, 0);
+  if (header.id !== ID_EBML) {
+    throw new Error("Missing EBML header");
+  }
+  const ebmlHeader = bytes.subarray(0, header.dataStart + header.size);
+
+  const segment = readElementHeader(bytes, ebmlHeader.length);
+  if (segment.id !== ID_SEGMENT) {
+    throw new Error("Missing Segment element");
+  }
+
+  const segmentEnd = segment.unknown ? bytes.length : Math.min(segment.dataStart + segment.size, bytes.length);
+  const result = { ebmlHeader, info: null, tracks: null, clusters: [] };
+
+  let position = segment.dataStart;
+  while (position < segmentEnd) {
+    const child = readElementHeader(bytes, position);
+
+    if (child.id === ID_CLUSTER) {
+      const cluster = parseCluster(bytes, child, segmentEnd);
+      result.clusters.push(cluster);
+      position = cluster.end;
+      continue;
+    }
+
+    const end = child.unknown ? segmentEnd : Math.min(child.dataStart + child.size, segmentEnd);
+    if (child.id === ID_INFO && !result.info) {
+      result.info = bytes.subarray(position, end);
+    } else if (child.id === ID_TRACKS && !result.tracks) {
+      result.tracks = bytes.subarray(position, end);
+    }
+    position = end;
+  }
+
+  if (!result.info || !result.tracks) {
+    throw new Error("Missing Info or Tracks element");
+  }
+
+  return result;
+}
+
+function parseCluster(bytes, header, limit) {
+  const end = header.unknown ? limit : Math.min(header.dataStart + header.size, limit);
+  const cluster = { timecode: 0, children: [], lastBlockOffset: 0, end };
+
+  let position = header.dataStart;
+  while (position < end) {
+    const child = readElementHeader(bytes, position);
+
+    if (header.unknown && SEGMENT_LEVEL_IDS.has(child.id)) {
+      cluster.end = position;
+      break;
+    }
+
+    const childEnd = Math.min(child.dataStart + child.size, end);
+    const data = bytes.subarray(child.dataStart, childEnd);
+
+    if (child.id === ID_TIMECODE) {
+      cluster.timecode = readUint(data);
+    } else {
+      if (child.id === ID_SIMPLE_BLOCK) {
+        cluster.lastBlockOffset = Math.max(cluster.lastBlockOffset, readBlockTimecode(data));
+      } else if (child.id === ID_BLOCK_GROUP) {
+        const block = findChild(data, ID_BLOCK);
+        if (block) {
+          cluster.lastBlockOffset = Math.max(cluster.lastBlockOffset, readBlockTimecode(block));
+        }
+      }
+      cluster.children.push(bytes.subarray(position, childEnd));
+    }
+
+    position = childEnd;
+  }
+
+  return cluster;
+}
+
+function readTimecodeScale(info) {
+  const header = readElementHeader(info, 0);
+  const scale = findChild(info.subarray(header.dataStart), ID_TIMECODE_SCALE);
+  return scale ? readUint(scale) : DEFAULT_TIMECODE_SCALE;
+}
+
+function rewriteDuration(info, duration) {
+  const header = readElementHeader(info, 0);
+  const body = info.subarray(header.dataStart);
+  const children = [];
+
+  let position = 0;
+  while (position < body.length) {
+    const child = readElementHeader(body, position);
+    const end = child.dataStart + child.size;
+    if (child.id !== ID_DURATION) {
+      children.push(body.subarray(position, end));
+    }
+    position = end;
+  }
+
+  const durationBytes = new Uint8Array(8);
+  new DataView(durationBytes.buffer).setFloat64(0, duration);
+  children.push(buildElement(ID_DURATION, durationBytes));
+
+  return buildElement(ID_INFO, concatBytes(children));
+}
+
+function findChild(bytes, id) {
+  let position = 0;
+  while (position < bytes.length) {
+    const child = readElementHeader(bytes, position);
+    const end = child.dataStart + child.size;
+    if (child.id === id) {
+      return bytes.subarray(child.dataStart, end);
+    }
+    position = end;
+  }
+  return null;
+}
+
+function readBlockTimecode(block) {
+  const track = readVint(block, 0);
+  const view = new DataView(block.buffer, block.byteOffset + track.length, 2);
+  return Math.max(0, view.getInt16(0));
+}
+
+function readElementHeader(bytes, offset) {
+  const first = bytes[offset];
+  let idLength = 1;
+  let mask = 0x80;
+  while (idLength <= 4 && !(first & mask)) {
+    mask >>= 1;
+    idLength++;
+  }
+  if (idLength > 4) {
+    throw new Error(`Invalid element ID at offset ${offset}`);
+  }
+
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + bytes[offset + i];
+  }
+
+  const size = readVint(bytes, offset + idLength);
+  return {
+    id,
+    size: size.value,
+    unknown: size.unknown,
+    dataStart: offset + idLength + size.length,
+  };
+}
+
+function readVint(bytes, offset) {
+  const first = bytes[offset];
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8) {
+    throw new Error(`Invalid variable-length integer at offset ${offset}`);
+  }
+
+  let value = first & (mask - 1);
+  let unknown = value === mask - 1;
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    value = value * 256 + byte;
+    if (byte !== 0xff) {
+      unknown = false;
+    }
+  }
+
+  return { value, length, unknown };
+}
+
+function readUint(bytes) {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+function idBytes(id) {
+  const bytes = [];
+  let value = id;
+  while (value > 0) {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size) {
+  let length = 1;
+  while (size >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function buildElement(id, data) {
+  return concatBytes([idBytes(id), encodeSize(data.length), data]);
+}
+
+function buildUintElement(id, value) {
+  const bytes = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return buildElement(id, new Uint8Array(bytes));
+}
+
+function concatBytes(parts) {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -1,31 +1,289 @@
 import * as dotenv from "dotenv";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { CredentialStore, StoredSecrets } from "./credentialStore";
 
 dotenv.config();
 
-interface R2Config {
-  accountId: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  bucketName: string;
-  workerUrl?: string;
-}
+const ACCOUNT_ID_PATTERN = /^[0-9a-f]{32}$/i;
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/;
+const S3_BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+const REGION_PATTERN = /^[a-z0-9-]+$/;
+const STORAGE_BACKENDS: StorageBackendType[] = ["r2", "s3", "filesystem"];
+const ENCRYPTION_MODES: RecordingEncryptionMode[] = ["off", "aes-256-gcm"];
+const FOLDER_NAME_PATTERN = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+const INTEGER_PATTERN = /^\d+$/;
+const MAX_RETRIES = 10;
+const MAX_REQUEST_TIMEOUT_SECONDS = 3600;
+const MAX_CONNECT_TIMEOUT_SECONDS = 120;
 
-export const r2Config: R2Config = {
+// Values from .env are the defaults; settings saved from the app override them
+const envConfig: AppSettings = {
+  storageBackend: parseStorageBackend(process.env.STORAGE_BACKEND),
   accountId: process.env.R2_ACCOUNT_ID || "",
   accessKeyId: process.env.R2_ACCESS_KEY_ID || "",
   secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || "",
   bucketName: process.env.R2_BUCKET_NAME || "",
+  folderName: process.env.R2_FOLDER_NAME || "audio",
   workerUrl: process.env.WORKER_URL || "",
+  endpoint: process.env.R2_ENDPOINT || "",
+  region: process.env.S3_REGION || "",
+  localPath: process.env.LOCAL_STORAGE_PATH || "",
+  encryption: process.env.ENCRYPT_RECORDINGS === "true" ? "aes-256-gcm" : "off",
+  maxRetries: process.env.S3_MAX_RETRIES || "",
+  requestTimeout: process.env.S3_REQUEST_TIMEOUT || "",
+  connectTimeout: process.env.S3_CONNECT_TIMEOUT || "",
 };
 
-const requiredKeys = ["accountId", "accessKeyId", "secretAccessKey", "bucketName"];
-requiredKeys.forEach(key => {
-  if (!r2Config[key as keyof R2Config]) {
-    console.warn(`WARNING: Missing R2 config value for ${key}. Set ${key.toUpperCase()} in environment variables or .env file.`);
+export const r2Config: AppSettings = { ...envConfig };
+
+const SECRET_SETTINGS: SecretSettingKey[] = ["accessKeyId", "secretAccessKey"];
+let storedSecrets: StoredSecrets = {};
+
+function getRequiredKeys(config: AppSettings): (keyof AppSettings)[] {
+  switch (config.storageBackend) {
+    case "filesystem":
+      // An empty local path falls back to a folder in the app data directory
+      return [];
+    case "s3":
+      return config.endpoint
+        ? ["accessKeyId", "secretAccessKey", "bucketName"]
+        : ["accessKeyId", "secretAccessKey", "bucketName", "region"];
+    default:
+      return config.endpoint
+        ? ["accessKeyId", "secretAccessKey", "bucketName"]
+        : ["accountId", "accessKeyId", "secretAccessKey", "bucketName"];
+  }
+}
+
+export function getMissingConfigKeys(): string[] {
+  return getRequiredKeys(r2Config).filter(key => !r2Config[key]);
+}
+
+export function getFolderName(): string {
+  return r2Config.folderName;
+}
+
+// The worker reads recordings straight from its R2 binding, so it only helps with the R2 backend
+export function isWorkerAvailable(): boolean {
+  return r2Config.storageBackend === "r2" && Boolean(r2Config.workerUrl);
+}
+
+export function validateSettings(settings: AppSettings): SettingsErrors {
+  const errors: SettingsErrors = {};
+
+  getRequiredKeys(settings).forEach(key => {
+    if (!settings[key]) {
+      errors[key] = "Required";
+    }
+  });
+
+  if (!STORAGE_BACKENDS.includes(settings.storageBackend)) {
+    errors.storageBackend = "Choose R2, S3 compatible or local folder storage";
+    return errors;
+  }
+
+  if (!ENCRYPTION_MODES.includes(settings.encryption)) {
+    errors.encryption = "Choose whether recordings are encrypted";
+  }
+
+  if (settings.storageBackend === "filesystem") {
+    if (settings.localPath && !path.isAbsolute(settings.localPath)) {
+      errors.localPath = "Expected an absolute folder path";
+    }
+  } else if (settings.storageBackend === "s3") {
+    if (settings.bucketName && !S3_BUCKET_NAME_PATTERN.test(settings.bucketName)) {
+      errors.bucketName = "Use 3-63 lowercase letters, digits, dots or hyphens, starting and ending with a letter or digit";
+    }
+    if (settings.region && !REGION_PATTERN.test(settings.region)) {
+      errors.region = "Expected a region name such as us-east-1";
+    }
+  } else {
+    if (settings.accountId && !ACCOUNT_ID_PATTERN.test(settings.accountId)) {
+      errors.accountId = "Expected the 32 character account ID from the Cloudflare dashboard";
+    }
+    if (settings.bucketName && !BUCKET_NAME_PATTERN.test(settings.bucketName)) {
+      errors.bucketName = "Use 3-63 lowercase letters, digits or hyphens, starting and ending with a letter or digit";
+    }
+  }
+
+  if (!FOLDER_NAME_PATTERN.test(settings.folderName)) {
+    errors.folderName = "Use letters, digits, dots, dashes or underscores, separated by single slashes";
+  }
+  if (settings.storageBackend === "r2" && settings.workerUrl && !isHttpUrl(settings.workerUrl)) {
+    errors.workerUrl = "Expected an http(s) URL";
+  }
+  if (settings.storageBackend !== "filesystem" && settings.endpoint && !isHttpUrl(settings.endpoint)) {
+    errors.endpoint = "Expected an http(s) URL";
+  }
+  if (settings.storageBackend !== "filesystem") {
+    if (settings.maxRetries && !isIntegerInRange(settings.maxRetries, 0, MAX_RETRIES)) {
+      errors.maxRetries = `Expected a whole number from 0 to ${MAX_RETRIES}`;
+    }
+    if (settings.requestTimeout && !isIntegerInRange(settings.requestTimeout, 1, MAX_REQUEST_TIMEOUT_SECONDS)) {
+      errors.requestTimeout = `Expected a number of seconds from 1 to ${MAX_REQUEST_TIMEOUT_SECONDS}`;
+    }
+    if (settings.connectTimeout && !isIntegerInRange(settings.connectTimeout, 1, MAX_CONNECT_TIMEOUT_SECONDS)) {
+      errors.connectTimeout = `Expected a number of seconds from 1 to ${MAX_CONNECT_TIMEOUT_SECONDS}`;
+    }
+  }
+
+  return errors;
+}
+
+export function normalizeSettings(settings: Partial<AppSettings>): AppSettings {
+  const value = (key: keyof AppSettings) => String(settings[key] ?? "").trim();
+  return {
+    storageBackend: parseStorageBackend(value("storageBackend")),
+    accountId: value("accountId"),
+    accessKeyId: value("accessKeyId"),
+    secretAccessKey: value("secretAccessKey"),
+    bucketName: value("bucketName"),
+    folderName: value("folderName").replace(/^\/+|\/+$/g, ""),
+    workerUrl: value("workerUrl").replace(/\/+$/, ""),
+    endpoint: value("endpoint").replace(/\/+$/, ""),
+    region: value("region").toLowerCase(),
+    localPath: value("localPath"),
+    encryption: (value("encryption") || "off") as RecordingEncryptionMode,
+    maxRetries: value("maxRetries"),
+    requestTimeout: value("requestTimeout"),
+    connectTimeout: value("connectTimeout"),
+  };
+}
+
+/**
+ * Settings the renderer may see; credentials are replaced by whether the encrypted store holds them
+ */
+export function getPublicSettings(settings: AppSettings = r2Config): PublicSettings {
+  const { accessKeyId, secretAccessKey, ...publicSettings } = settings;
+  return publicSettings;
+}
+
+export function getStoredSecretFlags(): Record<SecretSettingKey, boolean> {
+  return {
+    accessKeyId: Boolean(storedSecrets.accessKeyId),
+    secretAccessKey: Boolean(storedSecrets.secretAccessKey),
+  };
+}
+
+// Credentials left blank in the settings form keep their current value, since the form never receives them.
+// That value may come from .env, which saveSettings() does not copy into the encrypted store
+export function resolveSettingsInput(input: Partial<AppSettings>): AppSettings {
+  const settings = normalizeSettings(input);
+  SECRET_SETTINGS.forEach(key => {
+    if (!settings[key]) {
+      settings[key] = r2Config[key];
+    }
+  });
+  return settings;
+}
+
+export function canMigrateEnvCredentials(): boolean {
+  return SECRET_SETTINGS.some(key => envConfig[key]) && SECRET_SETTINGS.every(key => !storedSecrets[key]);
+}
+
+export async function migrateEnvCredentials(filePath: string, credentials: CredentialStore): Promise<void> {
+  const settings = normalizeSettings({ ...r2Config, ...pickSecrets(envConfig) });
+  await writeSettings(filePath, credentials, settings, pickSecrets(settings));
+  console.log("Moved .env credentials into the encrypted store; they can now be removed from .env");
+}
+
+export async function loadSettings(filePath: string, credentials: CredentialStore): Promise<void> {
+  let stored: Partial<AppSettings> = {};
+  try {
+    stored = JSON.parse(await fs.readFile(filePath, "utf-8")) as Partial<AppSettings>;
+    console.log(`Loaded settings from ${filePath}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn("Could not read saved settings, using .env values:", error);
+    }
   }
-});
 
-if (!r2Config.workerUrl) {
-  console.info("Worker URL not configured. Manual worker notification will be disabled.");
-  console.info("Set WORKER_URL in your .env file if you want to manually notify the worker about uploads.");
-}
\ No newline at end of file
+  storedSecrets = await credentials.load();
+
+  // Earlier versions kept the keys in settings.json in plain text
+  const plaintextSecrets = pickSecrets(stored);
+  if (Object.keys(plaintextSecrets).length > 0) {
+    try {
+      await credentials.save({ ...storedSecrets, ...plaintextSecrets });
+      await writeSettingsFile(filePath, getPublicSettings(normalizeSettings({ ...envConfig, ...stored })));
+      storedSecrets = { ...storedSecrets, ...plaintextSecrets };
+      console.log("Moved plain-text credentials from settings.json into the encrypted store");
+    } catch (error) {
+      console.error("Could not move plain-text credentials into the encrypted store:", error);
+    }
+  }
+
+  Object.assign(r2Config, normalizeSettings({ ...envConfig, ...stored, ...storedSecrets }));
+
+  getMissingConfigKeys().forEach(key => {
+    console.warn(`WARNING: Missing storage config value for ${key}. Enter it in Settings or set it in the .env file.`);
+  });
+
+  if (!isWorkerAvailable()) {
+    console.info("Worker not available for this storage. Transcription and joining session segments will be disabled.");
+  }
+}
+
+/**
+ * Credentials that only come from .env (a blank form field falls back to them) are not stored;
+ * moving them is left to migrateEnvCredentials()
+ */
+export async function saveSettings(filePath: string, credentials: CredentialStore, settings: AppSettings): Promise<void> {
+  const secrets = pickSecrets(settings);
+  SECRET_SETTINGS.forEach(key => {
+    if (!storedSecrets[key] && secrets[key] === envConfig[key]) {
+      delete secrets[key];
+    }
+  });
+  await writeSettings(filePath, credentials, settings, secrets);
+}
+
+async function writeSettings(
+  filePath: string,
+  credentials: CredentialStore,
+  settings: AppSettings,
+  secrets: StoredSecrets
+): Promise<void> {
+  await credentials.save(secrets);
+  await writeSettingsFile(filePath, getPublicSettings(settings));
+
+  storedSecrets = secrets;
+  Object.assign(r2Config, settings);
+  console.log("Settings saved");
+}
+
+async function writeSettingsFile(filePath: string, settings: PublicSettings): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(settings, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+function pickSecrets(settings: Partial<AppSettings>): StoredSecrets {
+  const secrets: StoredSecrets = {};
+  SECRET_SETTINGS.forEach(key => {
+    if (settings[key]) {
+      secrets[key] = settings[key];
+    }
+  });
+  return secrets;
+}
+
+// Settings saved before other backends existed are R2 settings; unknown names are left for validation to report
+function parseStorageBackend(value: string | undefined): StorageBackendType {
+  return (value || "r2") as StorageBackendType;
+}
+
+function isIntegerInRange(value: string, min: number, max: number): boolean {
+  return INTEGER_PATTERN.test(value) && Number(value) >= min && Number(value) <= max;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,80 @@
+import { safeStorage } from "electron";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+const STORE_VERSION = 1;
+
+export type StoredSecrets = Partial<Record<SecretSettingKey, string>>;
+
+interface StoredCredentials {
+  version: number;
+  secrets: StoredSecrets;
+}
+
+/**
+ * Keeps the storage credentials encrypted at rest with Electron safeStorage, which is backed by the
+ * OS keychain (Keychain, DPAPI, libsecret/kwallet)
+ */
+export class CredentialStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<StoredSecrets> {
+    let stored: StoredCredentials;
+    try {
+      stored = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as StoredCredentials;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn("Could not read the credential store:", error);
+      }
+      return {};
+    }
+
+    if (stored.version !== STORE_VERSION || !stored.secrets) {
+      console.warn(`Ignoring credential store with unsupported version ${stored.version}`);
+      return {};
+    }
+
+    if (!safeStorage.isEncryptionAvailable()) {
+      console.error("Secure storage is unavailable, stored credentials cannot be decrypted");
+      return {};
+    }
+
+    const secrets: StoredSecrets = {};
+    for (const [key, encrypted] of Object.entries(stored.secrets) as [SecretSettingKey, string][]) {
+      try {
+        secrets[key] = safeStorage.decryptString(Buffer.from(encrypted, "base64"));
+      } catch (error) {
+        console.error(`Could not decrypt stored ${key}, it has to be entered again:`, error);
+      }
+    }
+
+    return secrets;
+  }
+
+  async save(secrets: StoredSecrets): Promise<void> {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error("Secure credential storage is not available on this system");
+    }
+
+    if (process.platform === "linux" && safeStorage.getSelectedStorageBackend() === "basic_text") {
+      console.warn("No OS keyring found, credentials are only obfuscated rather than encrypted");
+    }
+
+    const stored: StoredCredentials = { version: STORE_VERSION, secrets: {} };
+    for (const [key, value] of Object.entries(secrets) as [SecretSettingKey, string | undefined][]) {
+      if (value) {
+        stored.secrets[key] = safeStorage.encryptString(value).toString("base64");
+      }
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+    console.log(`Stored ${Object.keys(stored.secrets).length} credential(s) in the encrypted store`);
+  }
+}
@@ -0,0 +1,150 @@
+import { safeStorage } from "electron";
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+const STORE_VERSION = 1;
+const KEY_LENGTH = 32;
+
+export interface EncryptionKey {
+  version: number;
+  key: Buffer;
+}
+
+interface StoredKeys {
+  version: number;
+  currentKeyVersion: number;
+  keys: Record<string, string>;
+}
+
+/**
+ * The local keys that wrap each recording's data key, encrypted at rest with Electron safeStorage.
+ * Keys are versioned so recordings wrapped with an older key stay readable after a new one is added.
+ * Losing this file (or the OS keychain entry behind it) makes encrypted recordings unreadable
+ */
+export class EncryptionKeyStore {
+  private readonly filePath: string;
+  private keys = new Map<number, Buffer>();
+  // Kept as stored so a failed decryption never drops a key from the file
+  private unreadableKeys: Record<string, string> = {};
+  private currentKeyVersion = 0;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Rejects when the key file exists but cannot be used, so a new key is never saved over it.
+   * A failed load is retried on the next call
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readKeys().catch((error) => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  /** The key new recordings are encrypted with, created on first use */
+  async getCurrentKey(): Promise<EncryptionKey> {
+    await this.load();
+
+    const current = this.keys.get(this.currentKeyVersion);
+    if (current) {
+      return { version: this.currentKeyVersion, key: current };
+    }
+
+    return this.addKey();
+  }
+
+  async getKey(version: number): Promise<Buffer> {
+    await this.load();
+
+    const key = this.keys.get(version);
+    if (!key) {
+      throw new Error(`Encryption key version ${version} is not available on this computer`);
+    }
+    return key;
+  }
+
+  private async addKey(): Promise<EncryptionKey> {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error("Secure storage is not available, recordings cannot be encrypted on this system");
+    }
+
+    const version = Math.max(0, ...this.keys.keys(), ...Object.keys(this.unreadableKeys).map(Number)) + 1;
+    const key = randomBytes(KEY_LENGTH);
+    this.keys.set(version, key);
+    this.currentKeyVersion = version;
+    await this.save();
+
+    console.log(`Created recording encryption key version ${version}`);
+    return { version, key };
+  }
+
+  private async readKeys(): Promise<void> {
+    // Only a missing file means there are no keys yet; anything else could hide keys recordings depend on
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read the encryption key store: ${errorMessage}`);
+    }
+
+    let stored: StoredKeys;
+    try {
+      stored = JSON.parse(contents) as StoredKeys;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`The encryption key store at ${this.filePath} is corrupt: ${errorMessage}`);
+    }
+
+    if (!stored || stored.version !== STORE_VERSION || !stored.keys) {
+      throw new Error(
+        `The encryption key store at ${this.filePath} has unsupported version ${stored && stored.version}`
+      );
+    }
+
+    if (!safeStorage.isEncryptionAvailable()) {
+      console.error("Secure storage is unavailable, encrypted recordings cannot be read");
+      this.unreadableKeys = { ...stored.keys };
+      this.currentKeyVersion = stored.currentKeyVersion;
+      return;
+    }
+
+    for (const [version, encrypted] of Object.entries(stored.keys)) {
+      try {
+        const key = safeStorage.decryptString(Buffer.from(encrypted, "base64"));
+        this.keys.set(Number(version), Buffer.from(key, "base64"));
+      } catch (error) {
+        console.error(`Could not decrypt encryption key version ${version}:`, error);
+        this.unreadableKeys[version] = encrypted;
+      }
+    }
+    this.currentKeyVersion = stored.currentKeyVersion;
+    console.log(`Loaded ${this.keys.size} recording encryption key(s)`);
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredKeys = {
+      version: STORE_VERSION,
+      currentKeyVersion: this.currentKeyVersion,
+      keys: { ...this.unreadableKeys },
+    };
+    this.keys.forEach((key, version) => {
+      stored.keys[String(version)] = safeStorage.encryptString(key.toString("base64")).toString("base64");
+    });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
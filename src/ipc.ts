@@ -0,0 +1,50 @@
+import { IpcMainEvent, IpcMainInvokeEvent, WebContents, ipcMain } from "electron";
+
+/**
+ * Thrown by invoke handlers to fail a request with a specific code; anything else is reported as "failed"
+ */
+export class IpcRequestError extends Error {
+  readonly code: IpcErrorCode;
+
+  constructor(code: IpcErrorCode, message: string) {
+    super(message);
+    this.name = "IpcRequestError";
+    this.code = code;
+  }
+}
+
+export function handleInvoke<C extends IpcInvokeChannel>(
+  channel: C,
+  handler: (event: IpcMainInvokeEvent, request: IpcRequest<C>) => Promise<IpcResponse<C>>
+): void {
+  ipcMain.handle(channel, async (event, request: IpcRequest<C>): Promise<IpcResult<IpcResponse<C>>> => {
+    try {
+      return { ok: true, value: await handler(event, request) };
+    } catch (error) {
+      console.error(`Error handling ${channel}:`, error);
+      return { ok: false, error: toIpcError(error) };
+    }
+  });
+}
+
+export function handleSend<C extends IpcSendChannel>(
+  channel: C,
+  listener: (event: IpcMainEvent, payload: IpcSendChannels[C]) => void
+): void {
+  ipcMain.on(channel, listener);
+}
+
+export function push<C extends IpcPushChannel>(sender: WebContents, channel: C, payload: IpcPushChannels[C]): void {
+  sender.send(channel, payload);
+}
+
+export function sendStatus(sender: WebContents, message: string, isError = false): void {
+  push(sender, "upload-status", { message, isError });
+}
+
+function toIpcError(error: unknown): IpcError {
+  if (error instanceof IpcRequestError) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: "failed", message: error instanceof Error ? error.message : String(error) };
+}
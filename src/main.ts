@@ -1,8 +1,49 @@
-import { app, BrowserWindow, ipcMain } from "electron";
+import { app, BrowserWindow, desktopCapturer, dialog, session } from "electron";
+import { promises as fs } from "fs";
 import * as path from "path";
 import * as url from "url";
-import { R2UploadService } from "./services/r2UploadService";
-import { r2Config } from "./config/config";
+import { AppTray } from "./services/appTray";
+import { getContentTypeForKey, getExtensionForMimeType } from "./services/audioFormats";
+import { createStorageBackend } from "./services/createStorageBackend";
+import { GlobalShortcuts } from "./services/globalShortcuts";
+import { ENCRYPTED_CONTENT_TYPE, RecordingEncryption } from "./services/recordingEncryption";
+import {
+  RecordingSessionService,
+  SessionEncryptionKeys,
+  getSegmentMetadata,
+  getSessionKey,
+} from "./services/recordingSessionService";
+import { StorageBackend, generateSegmentKey } from "./services/storageBackend";
+import {
+  TranscriptionJob,
+  TranscriptionJobError,
+  TranscriptionJobService,
+  TranscriptionJobStatus,
+} from "./services/transcriptionJobService";
+import { queryHistory } from "./services/historyQuery";
+import { RecordingIndex } from "./services/recordingIndex";
+import { RecordingSpool } from "./services/recordingSpool";
+import { TranscriptSearchIndex } from "./services/transcriptSearchIndex";
+import { TRANSCRIPT_EXPORT_FORMATS, exportTranscript, isTranscriptExportFormat } from "./services/transcriptExport";
+import { getTranscriptionKey, parseTranscriptDocument, renameSpeakers } from "./services/transcriptSchema";
+import { UploadQueue } from "./services/uploadQueue";
+import { IpcRequestError, handleInvoke, handleSend, push, sendStatus } from "./ipc";
+import {
+  canMigrateEnvCredentials,
+  getFolderName,
+  getMissingConfigKeys,
+  getPublicSettings,
+  getStoredSecretFlags,
+  isWorkerAvailable,
+  loadSettings,
+  migrateEnvCredentials,
+  r2Config,
+  resolveSettingsInput,
+  saveSettings,
+  validateSettings,
+} from "./config/config";
+import { CredentialStore } from "./config/credentialStore";
+import { EncryptionKeyStore } from "./config/encryptionKeyStore";
 
 if (process.env.NODE_ENV === "development") {
   require("electron-reload")(__dirname, {
@@ -14,10 +55,354 @@ if (process.env.NODE_ENV === "development") {
 }
 
 let mainWindow: BrowserWindow | null;
-let r2UploadService: R2UploadService | null = null;
+let appTray: AppTray | null = null;
+let globalShortcuts: GlobalShortcuts | null = null;
+let recordingActivity: RecordingActivity = "idle";
+let isQuitting = false;
+let storageBackend: StorageBackend | null = null;
+let recordingSessionService: RecordingSessionService | null = null;
+let uploadQueue: UploadQueue | null = null;
+let transcriptIndex: TranscriptSearchIndex | null = null;
+let recordingIndex: RecordingIndex | null = null;
+let historyRefresh: Promise<boolean> | null = null;
+let historyFilters: AudioHistoryQuery = {};
+let credentialStore: CredentialStore | null = null;
+let recordingEncryption: RecordingEncryption | null = null;
+let encryptionKeyStore: EncryptionKeyStore | null = null;
+let recordingSpool: RecordingSpool | null = null;
+
+function initializeStorage() {
+  try {
+    storageBackend = createStorageBackend(r2Config, getStorageBackendOptions());
+    recordingSessionService = new RecordingSessionService(
+      storageBackend,
+      isWorkerAvailable() ? r2Config.workerUrl : undefined
+    );
+    console.log(`Using ${storageBackend.label} storage`);
+  } catch (error) {
+    console.error("Storage unavailable, recordings will stay in the local queue:", error);
+    storageBackend = null;
+    recordingSessionService = null;
+  }
+}
+
+function getStorageBackendOptions() {
+  return {
+    uploadStateDir: path.join(app.getPath("userData"), "pending-uploads"),
+    defaultLocalPath: path.join(app.getPath("userData"), "recordings"),
+  };
+}
+
+function getSettingsPath() {
+  return path.join(app.getPath("userData"), "settings.json");
+}
+
+function getCredentialStore(): CredentialStore {
+  if (!credentialStore) {
+    credentialStore = new CredentialStore(path.join(app.getPath("userData"), "credentials.json"));
+  }
+  return credentialStore;
+}
+
+function getEncryptionKeyStore(): EncryptionKeyStore {
+  if (!encryptionKeyStore) {
+    encryptionKeyStore = new EncryptionKeyStore(path.join(app.getPath("userData"), "encryption-keys.json"));
+  }
+  return encryptionKeyStore;
+}
 
-function initializeR2Service() {
-  r2UploadService = new R2UploadService(r2Config);
+function getRecordingSpool(): RecordingSpool {
+  if (!recordingSpool) {
+    recordingSpool = new RecordingSpool(path.join(app.getPath("userData"), "recording-spool"));
+  }
+  return recordingSpool;
+}
+
+function getRecordingEncryption(): RecordingEncryption {
+  if (!recordingEncryption) {
+    recordingEncryption = new RecordingEncryption(getEncryptionKeyStore());
+  }
+  return recordingEncryption;
+}
+
+// Credentials never leave the main process; the renderer only learns whether they are stored
+function getSettingsStatus(
+  overrides: { settings?: AppSettings; errors?: SettingsErrors; saved?: boolean } = {}
+): SettingsStatus {
+  return {
+    settings: getPublicSettings(overrides.settings),
+    storedSecrets: getStoredSecretFlags(),
+    envMigrationAvailable: canMigrateEnvCredentials(),
+    missing: getMissingConfigKeys(),
+    errors: overrides.errors,
+    saved: overrides.saved,
+  };
+}
+
+// Rebuilds the storage services from the current settings; queued uploads and the history pick
+// up the new bucket straight away
+async function applySettings() {
+  initializeStorage();
+  uploadQueue?.retryNow();
+
+  if (await refreshHistoryIndex()) {
+    console.log("History index reconciled with the new storage settings");
+  }
+  if (mainWindow) {
+    await sendAudioHistory(mainWindow.webContents);
+  }
+}
+
+async function initializeHistoryIndex() {
+  transcriptIndex = new TranscriptSearchIndex(path.join(app.getPath("userData"), "transcript-index.json"));
+  recordingIndex = new RecordingIndex(path.join(app.getPath("userData"), "recording-index.json"));
+  await Promise.all([transcriptIndex.load(), recordingIndex.load()]);
+  await refreshHistoryIndex();
+}
+
+function refreshHistoryIndex(): Promise<boolean> {
+  if (!historyRefresh) {
+    historyRefresh = reconcileHistoryIndex().finally(() => {
+      historyRefresh = null;
+    });
+  }
+  return historyRefresh;
+}
+
+async function reconcileHistoryIndex(): Promise<boolean> {
+  if (!storageBackend || !transcriptIndex || !recordingIndex) {
+    return false;
+  }
+
+  try {
+    const objects = await storageBackend.listObjects(`${getFolderName()}/`);
+    const transcriptsChanged = await transcriptIndex.reconcile(storageBackend, objects);
+    const recordingsChanged = await recordingIndex.reconcile(storageBackend, objects, transcriptIndex);
+    return transcriptsChanged || recordingsChanged;
+  } catch (error) {
+    console.error("Error refreshing history index:", error);
+    return false;
+  }
+}
+
+function initializeUploadQueue() {
+  uploadQueue = new UploadQueue({
+    directory: path.join(app.getPath("userData"), "upload-queue"),
+    upload: async (entry, source, progressCallback) => {
+      if (!storageBackend || !recordingSessionService) {
+        throw new Error("Storage not initialized");
+      }
+      await storageBackend.uploadAudio(source, progressCallback, {
+        key: entry.key,
+        contentType: entry.segment?.encryption ? ENCRYPTED_CONTENT_TYPE : entry.segment?.mimeType,
+        metadata: entry.segment ? getSegmentMetadata(entry.segment) : undefined,
+      });
+
+      // Entries queued before recordings were split into sessions are transcribed on their own
+      if (!entry.segment) {
+        await requestTranscription(entry.key);
+      }
+
+      if (entry.segment) {
+        const session = await recordingSessionService.recordSegment(entry.key, entry.size, entry.segment);
+        if (session.status === "uploaded") {
+          finalizeSession(session.id);
+        }
+      }
+    },
+    onStatsChange: (stats) => {
+      if (mainWindow) {
+        push(mainWindow.webContents, "upload-queue-status", stats);
+      }
+      updateTray();
+    },
+    onProgress: (progressEvent) => {
+      if (mainWindow) {
+        push(mainWindow.webContents, "upload-progress", progressEvent);
+      }
+    },
+    onUploaded: async (entry) => {
+      if (!mainWindow) {
+        return;
+      }
+      sendStatus(mainWindow.webContents, `Audio uploaded successfully: ${entry.key}`);
+      await sendAudioHistory(mainWindow.webContents);
+    },
+    onFailed: (entry, error) => {
+      if (mainWindow) {
+        sendStatus(
+          mainWindow.webContents,
+          `${describeUploadError(error)} (recording kept in local queue, attempt ${entry.attempts})`,
+          true
+        );
+      }
+    },
+  });
+}
+
+async function queueSegment(segment: AudioSegmentInfo, data: Uint8Array) {
+  if (!uploadQueue) {
+    throw new Error("Upload queue not initialized");
+  }
+
+  const key = generateSegmentKey(
+    segment.sessionId,
+    segment.index,
+    segment.startedAt,
+    getExtensionForMimeType(segment.mimeType)
+  );
+
+  // Encrypted before it is queued, so the bytes that are retried and resumed never change
+  const encrypted = r2Config.encryption !== "off" ? await getRecordingEncryption().encrypt(data) : null;
+  return uploadQueue.enqueue(encrypted ? encrypted.data : data, key, {
+    ...segment,
+    encryption: encrypted?.envelope,
+  });
+}
+
+async function getUnfinishedRecordings(): Promise<UnfinishedRecording[]> {
+  const recordings = new Map<string, UnfinishedRecording>();
+
+  for (const { segment, size } of await getRecordingSpool().list()) {
+    const recording = recordings.get(segment.sessionId);
+    if (recording) {
+      recording.segments++;
+      recording.size += size;
+    } else {
+      recordings.set(segment.sessionId, {
+        sessionId: segment.sessionId,
+        startedAt: segment.startedAt,
+        track: segment.track,
+        segments: 1,
+        size,
+      });
+    }
+  }
+
+  return [...recordings.values()].filter((recording) => recording.size > 0);
+}
+
+// The last segment left of each session is queued as its final one so the session still gets joined
+async function recoverUnfinishedRecordings(): Promise<number> {
+  const spool = getRecordingSpool();
+  const spooled = await spool.list();
+  const finalIndexes = new Map<string, number>();
+
+  spooled
+    .filter(({ size }) => size > 0)
+    .forEach(({ segment }) => {
+      finalIndexes.set(segment.sessionId, Math.max(finalIndexes.get(segment.sessionId) ?? -1, segment.index));
+    });
+
+  for (const { segment, size, updatedAt } of spooled) {
+    if (size > 0) {
+      await queueSegment(
+        {
+          ...segment,
+          // Recorded time isn't known after a crash; wall-clock time to the last chunk is close enough
+          durationMs: Math.max(new Date(updatedAt).getTime() - new Date(segment.startedAt).getTime(), 0),
+          isFinal: finalIndexes.get(segment.sessionId) === segment.index,
+        },
+        await spool.read(segment)
+      );
+      console.log(`Recovered segment ${segment.index} of session ${segment.sessionId} (${size} bytes)`);
+    }
+    await spool.remove(segment);
+  }
+
+  return finalIndexes.size;
+}
+
+async function finalizeSession(sessionId: string) {
+  if (!storageBackend || !recordingSessionService || !isWorkerAvailable()) {
+    return;
+  }
+
+  try {
+    const manifest = await storageBackend.getJson<RecordingSession>(getSessionKey(sessionId));
+    const encryptionKeys = manifest ? await createSessionEncryptionKeys(manifest) : undefined;
+
+    const session = await recordingSessionService.concatenate(sessionId, encryptionKeys);
+    if (session.assetKey) {
+      await requestTranscription(session.assetKey, session.assetEncryption);
+    }
+  } catch (error) {
+    console.error(`Error joining segments for session ${sessionId}:`, error);
+    if (mainWindow) {
+      sendStatus(
+        mainWindow.webContents,
+        `Error joining recording session: ${error instanceof Error ? error.message : String(error)}`,
+        true
+      );
+    }
+  }
+
+  if (mainWindow) {
+    await sendAudioHistory(mainWindow.webContents);
+  }
+}
+
+/**
+ * The worker gets the data key of every encrypted segment plus a new data key for the joined
+ * recording, so it stays encrypted. Returns undefined when no segment is encrypted
+ */
+async function createSessionEncryptionKeys(session: RecordingSession): Promise<SessionEncryptionKeys | undefined> {
+  const encryption = getRecordingEncryption();
+  const segmentKeys: Record<string, string> = {};
+  for (const segment of session.segments) {
+    if (segment.encryption) {
+      segmentKeys[segment.key] = (await encryption.unwrapDataKey(segment.encryption)).toString("base64");
+    }
+  }
+
+  if (Object.keys(segmentKeys).length === 0) {
+    return undefined;
+  }
+
+  const output = await encryption.createDataKey();
+  return {
+    segmentKeys,
+    output: {
+      dataKey: output.dataKey.toString("base64"),
+      header: output.header.toString("base64"),
+      envelope: output.envelope,
+    },
+  };
+}
+
+// Encrypted recordings are known from their session manifest, so nothing has to be downloaded to tell
+function findEncryptionEnvelope(key: string): EncryptionEnvelope | undefined {
+  for (const file of recordingIndex?.list() || []) {
+    if (!file.session) {
+      continue;
+    }
+    if (file.session.assetKey === key) {
+      return file.session.assetEncryption;
+    }
+    const segment = file.session.segments.find((candidate) => candidate.key === key);
+    if (segment) {
+      return segment.encryption;
+    }
+  }
+  return undefined;
+}
+
+async function getDecryptionKey(envelope?: EncryptionEnvelope): Promise<string | undefined> {
+  return envelope ? (await getRecordingEncryption().unwrapDataKey(envelope)).toString("base64") : undefined;
+}
+
+// Starts a worker transcription without waiting for it; failures only cost the automatic transcript
+async function requestTranscription(key: string, envelope?: EncryptionEnvelope) {
+  if (!isWorkerAvailable()) {
+    return;
+  }
+
+  try {
+    const job = await new TranscriptionJobService(r2Config.workerUrl).start(key, await getDecryptionKey(envelope));
+    console.log(`Transcription job ${job.id} started for ${key}`);
+  } catch (error) {
+    console.warn("Failed to initiate transcription, continuing:", error);
+  }
 }
 
 function createWindow() {
@@ -28,6 +413,8 @@ function createWindow() {
       nodeIntegration: false,
       contextIsolation: true,
       preload: path.join(__dirname, "preload.js"),
+      // Segment rotation and silence detection run on renderer timers, which must not be throttled while hidden
+      backgroundThrottling: false,
     },
   });
 
@@ -39,366 +426,596 @@ function createWindow() {
     })
   );
 
-  mainWindow.webContents.openDevTools();
+  if (process.env.NODE_ENV === "development") {
+    mainWindow.webContents.openDevTools();
+  }
+
+  // Recorders of the previous page are gone once the window (re)loads, so their segments can only be recovered
+  mainWindow.webContents.on("did-start-loading", () => {
+    recordingSpool?.releaseActiveSegments();
+  });
+
+  mainWindow.webContents.on("did-finish-load", () => {
+    if (mainWindow && uploadQueue) {
+      push(mainWindow.webContents, "upload-queue-status", uploadQueue.getStats());
+    }
+  });
+
+  // Closing the window only hides it so a recording carries on from the tray
+  mainWindow.on("close", (event) => {
+    if (!isQuitting) {
+      event.preventDefault();
+      mainWindow?.hide();
+    }
+  });
 
   mainWindow.on("closed", () => {
     mainWindow = null;
   });
 }
 
-app.on("ready", () => {
-  initializeR2Service();
+function showWindow() {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+function sendRecordingCommand(command: RecordingCommand) {
+  if (!mainWindow) {
+    createWindow();
+  }
+  console.log(`Sending recording command: ${command}`);
+  if (mainWindow) {
+    push(mainWindow.webContents, "recording-command", command);
+  }
+}
+
+function updateTray() {
+  appTray?.update({
+    recording: recordingActivity,
+    uploads: uploadQueue ? uploadQueue.getStats() : { queued: 0, uploading: 0, failed: 0 },
+  });
+}
+
+function initializeTrayAndShortcuts() {
+  appTray = new AppTray({
+    onShow: showWindow,
+    onCommand: sendRecordingCommand,
+    onQuit: () => app.quit(),
+  });
+  updateTray();
+
+  globalShortcuts = new GlobalShortcuts(path.join(app.getPath("userData"), "shortcuts.json"), sendRecordingCommand);
+  globalShortcuts
+    .load()
+    .then((status) => {
+      if (mainWindow) {
+        push(mainWindow.webContents, "shortcuts", status);
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to register global shortcuts:", error);
+    });
+}
+
+// getDisplayMedia from the renderer is answered with the primary screen plus its loopback audio,
+// so system audio can be captured without a picker; the renderer drops the video track straight away
+function initializeSystemAudioCapture() {
+  session.defaultSession.setDisplayMediaRequestHandler((request, callback) => {
+    desktopCapturer
+      .getSources({ types: ["screen"] })
+      .then((sources) => {
+        if (sources.length === 0) {
+          console.error("No screen source available for system audio capture");
+          callback({});
+          return;
+        }
+        callback({ video: sources[0], audio: "loopback" });
+      })
+      .catch((error) => {
+        console.error("Failed to list capture sources:", error);
+        callback({});
+      });
+  });
+}
+
+app.on("ready", async () => {
+  await loadSettings(getSettingsPath(), getCredentialStore());
+  initializeStorage();
+  initializeUploadQueue();
+  initializeSystemAudioCapture();
+  initializeTrayAndShortcuts();
   createWindow();
+
+  uploadQueue?.start().catch((error) => {
+    console.error("Failed to start upload queue:", error);
+  });
+  initializeHistoryIndex().catch((error) => {
+    console.error("Failed to load history index:", error);
+  });
+});
+
+app.on("before-quit", () => {
+  isQuitting = true;
+});
+
+app.on("will-quit", () => {
+  uploadQueue?.stop();
+  globalShortcuts?.unregisterAll();
+  appTray?.destroy();
 });
 
 app.on("window-all-closed", () => {
-  if (process.platform !== "darwin") {
-    app.quit();
-  }
+  // Keep running in the tray; quitting goes through the tray menu
+  console.log("All windows closed, still running in the tray");
 });
 
 app.on("activate", () => {
-  if (mainWindow === null) {
-    createWindow();
-  }
+  showWindow();
 });
 
-ipcMain.on("audio-data", async (event, data) => {
+handleSend("recording-segment-start", async (event, segment) => {
   try {
-    if (!data || !(data instanceof Uint8Array) || data.length === 0) {
-      console.error("Invalid audio data received");
-      event.sender.send("upload-status", "Error: Invalid audio data received");
-      return;
-    }
-
-    if (!r2UploadService) {
-      console.error("R2 upload service not initialized");
-      event.sender.send("upload-status", "Error: R2 upload service not initialized");
-      return;
-    }
-
-    const missingConfigValues = Object.entries(r2Config).filter(([key, value]) => {
-      return key !== "workerUrl" && !value;
-    });
-
-    if (missingConfigValues.length > 0) {
-      const missingKeys = missingConfigValues.map(([key]) => key).join(", ");
-      const errorMessage = `Missing R2 configuration: ${missingKeys}. Please set these in .env file`;
-      console.error(errorMessage);
-      event.sender.send("upload-status", errorMessage);
-      console.log("Received audio data of size:", data.length, "(Not uploading due to missing config)");
+    if (!segment || !segment.sessionId || typeof segment.index !== "number" || !segment.startedAt) {
+      console.error("Recording segment is missing session information");
+      sendStatus(event.sender, "Error: Recording segment is missing session information", true);
       return;
     }
 
-    event.sender.send("upload-status", `Uploading audio (${formatBytes(data.length)})...`);
-
-    try {
-      console.log("Received audio data of size:", data.length);
-
-      const progressCallback = (progressEvent: UploadProgressEvent) => {
-        event.sender.send("upload-progress", progressEvent);
-      };
-
-      const key = await r2UploadService.uploadAudio(data, progressCallback);
-      console.log("Uploaded audio to R2:", key);
-
-      event.sender.send("upload-status", `Audio uploaded successfully: ${key}`);
-
-      await sendAudioHistory(event.sender);
-    } catch (uploadError) {
-      let errorMessage = "Error uploading audio";
-
-      if (uploadError instanceof Error) {
-        if (uploadError.name === "NetworkError" || uploadError.message.includes("network")) {
-          errorMessage = "Network error while uploading audio. Please check your internet connection.";
-        } else if (uploadError.name === "TimeoutError" || uploadError.message.includes("timeout")) {
-          errorMessage = "Upload timed out. Please try again later.";
-        } else if (uploadError.message.includes("credentials") || uploadError.message.includes("authentication")) {
-          errorMessage = "Authentication error. Please check your R2 credentials.";
-        } else if (uploadError.message.includes("bucket")) {
-          errorMessage = "R2 bucket error. Please verify your bucket name and permissions.";
-        } else {
-          errorMessage = `Error uploading audio: ${uploadError.message}`;
-        }
-      } else {
-        errorMessage = `Error uploading audio: ${String(uploadError)}`;
-      }
-
-      console.error("Error uploading audio:", uploadError);
-      event.sender.send("upload-status", errorMessage);
-    }
+    await getRecordingSpool().begin(segment);
+    console.log(`Spooling segment ${segment.index} of session ${segment.sessionId} to disk`);
   } catch (error) {
-    console.error("Unexpected error handling audio data:", error);
+    console.error("Error starting spool file for recording segment:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
-    event.sender.send("upload-status", `Unexpected error: ${errorMessage}`);
+    sendStatus(event.sender, `Error saving recording to disk: ${errorMessage}`, true);
   }
 });
 
-ipcMain.on("get-audio-history", async (event) => {
+handleSend("recording-chunk", async (event, chunk) => {
+  if (!chunk || !(chunk.data instanceof Uint8Array)) {
+    console.error("Invalid recording chunk received");
+    return;
+  }
+
   try {
-    await sendAudioHistory(event.sender);
+    await getRecordingSpool().append(chunk);
   } catch (error) {
-    console.error("Error handling audio history request:", error);
-    event.sender.send("upload-status", "Failed to retrieve audio history");
+    console.error(`Error spooling chunk of segment ${chunk.index} of session ${chunk.sessionId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    sendStatus(event.sender, `Error saving recording to disk: ${errorMessage}`, true);
   }
 });
 
-ipcMain.on("delete-audio", async (event, key) => {
-  try {
-    if (!key) {
-      throw new Error("No key provided for deletion");
-    }
+handleInvoke("upload-segment", async (_event, segment) => {
+  if (!segment || !segment.sessionId || typeof segment.index !== "number" || !segment.startedAt) {
+    throw new IpcRequestError("invalid-request", "Audio segment is missing session information");
+  }
 
-    if (!r2UploadService) {
-      throw new Error("R2 upload service not initialized");
-    }
+  const recordingSpool = getRecordingSpool();
+  const data = await recordingSpool.finish(segment);
+  if (data.length === 0) {
+    console.log(`No audio data captured for segment ${segment.index} of session ${segment.sessionId}`);
+    await recordingSpool.remove(segment);
+    return null;
+  }
 
-    await r2UploadService.deleteAudio(key);
+  console.log(
+    `Received segment ${segment.index} of session ${segment.sessionId} (${data.length} bytes${
+      segment.isFinal ? ", final" : ""
+    })`
+  );
 
-    event.sender.send("upload-status", `Audio file deleted successfully: ${key}`);
+  const entry = await queueSegment(segment, data);
+  await recordingSpool.remove(segment);
 
-    await sendAudioHistory(event.sender);
-  } catch (error) {
-    console.error("Error deleting audio:", error);
-    event.sender.send(
-      "upload-status",
-      `Error deleting audio: ${error instanceof Error ? error.message : String(error)}`
-    );
+  const missingConfig = getMissingConfigKeys();
+  if (missingConfig.length > 0) {
+    console.error(`Missing storage configuration: ${missingConfig.join(", ")}. Segment kept in the upload queue`);
   }
+
+  return { key: entry.key, size: entry.size, missingConfig };
 });
 
-ipcMain.on("transcribe-audio", async (event, key) => {
-  let progressInterval: NodeJS.Timeout | null = null;
-  let progress = 0;
+handleInvoke("get-unfinished-recordings", async () => {
+  return getUnfinishedRecordings();
+});
 
-  const sendProgressUpdate = (progressValue: number, message: string) => {
-    try {
-      event.sender.send("transcription-progress", {
-        key,
-        progress: progressValue,
-        message,
-      });
-    } catch (err) {
-      console.error("Error sending progress update:", err);
-    }
-  };
+handleInvoke("recover-recordings", async () => {
+  return recoverUnfinishedRecordings();
+});
 
-  const clearProgressInterval = () => {
-    if (progressInterval) {
-      clearInterval(progressInterval);
-      progressInterval = null;
-    }
-  };
+handleInvoke("discard-recordings", async () => {
+  const recordingSpool = getRecordingSpool();
+  const spooled = await recordingSpool.list();
+  await Promise.all(spooled.map(({ segment }) => recordingSpool.remove(segment)));
+  console.log(`Discarded ${spooled.length} unfinished recording segment(s)`);
+});
+
+handleSend("retry-uploads", () => {
+  uploadQueue?.retryNow();
+});
+
+handleInvoke("get-settings", async () => {
+  return getSettingsStatus();
+});
+
+handleInvoke("save-settings", async (event, input) => {
+  const settings = resolveSettingsInput(input || {});
+  const errors = validateSettings(settings);
+  if (Object.keys(errors).length > 0) {
+    return getSettingsStatus({ settings, errors, saved: false });
+  }
+
+  if (settings.encryption !== "off") {
+    // Fails early when the OS offers no secure storage for the key
+    await getEncryptionKeyStore().getCurrentKey();
+  }
+
+  await saveSettings(getSettingsPath(), getCredentialStore(), settings);
+
+  // Reconnecting can take a while, so the renderer hears about the save first
+  const sender = event.sender;
+  applySettings().catch((error) => {
+    console.error("Error applying settings:", error);
+    sendStatus(sender, `Error applying settings: ${error instanceof Error ? error.message : String(error)}`, true);
+  });
+
+  return getSettingsStatus({ saved: true });
+});
+
+handleInvoke("test-connection", async (_event, input) => {
+  const settings = resolveSettingsInput(input || {});
+  const errors = validateSettings(settings);
+
+  if (Object.keys(errors).length > 0) {
+    return {
+      success: false,
+      message: "Fix the highlighted settings before testing the connection",
+      invalidSettings: getSettingsStatus({ settings, errors, saved: false }),
+    };
+  }
 
   try {
-    console.log(`Transcription requested for audio: ${key}`);
+    const storage = createStorageBackend(settings, { ...getStorageBackendOptions(), verifyConnection: false });
+    return await storage.testConnection();
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : String(error) };
+  }
+});
 
-    if (!r2UploadService) {
-      console.error("Transcription failed: R2 upload service not initialized");
-      throw new Error("R2 upload service not initialized");
-    }
+handleInvoke("migrate-env-credentials", async () => {
+  await migrateEnvCredentials(getSettingsPath(), getCredentialStore());
+  return getSettingsStatus();
+});
 
-    if (!r2Config.workerUrl) {
-      console.error("Transcription failed: Worker URL not configured");
-      throw new Error("Worker URL not configured. Please set R2_WORKER_URL in .env file");
-    }
+handleSend("recording-state", (_event, state) => {
+  if (state !== "idle" && state !== "recording" && state !== "paused") {
+    console.error(`Ignoring unknown recording state: ${state}`);
+    return;
+  }
+  recordingActivity = state;
+  updateTray();
+});
+
+handleInvoke("get-shortcuts", async () => {
+  if (!globalShortcuts) {
+    throw new IpcRequestError("not-configured", "Global shortcuts not initialized");
+  }
+  return globalShortcuts.getStatus();
+});
 
-    console.log(`Using worker endpoint: ${r2Config.workerUrl}/transcribe`);
+handleInvoke("update-shortcuts", async (_event, shortcuts) => {
+  if (!globalShortcuts) {
+    throw new IpcRequestError("not-configured", "Global shortcuts not initialized");
+  }
+  return globalShortcuts.update(shortcuts);
+});
 
-    sendProgressUpdate(0, "Initiating transcription request...");
-    progress = 10;
+handleInvoke("get-audio-history", async (event, query) => {
+  return getAudioHistory(event.sender, query);
+});
 
-    progressInterval = setInterval(() => {
-      progress += 5;
-      if (progress <= 95) {
-        const progressMessage = progress < 50 ? "Transcribing audio..." : "Processing transcription results...";
-        sendProgressUpdate(progress, progressMessage);
-      }
-    }, 3000);
+handleInvoke("get-playback-url", async (_event, key) => {
+  if (!key) {
+    throw new IpcRequestError("invalid-request", "No recording provided for playback");
+  }
 
-    console.log(`Sending transcription request to worker for key: ${key}`);
-    sendProgressUpdate(10, "Connecting to transcription service...");
+  if (!storageBackend) {
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
 
-    let response;
-    try {
-      response = await fetch(`${r2Config.workerUrl}/transcribe`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ key }),
-      });
-    } catch (fetchError: unknown) {
-      console.error("Network error during transcription request:", fetchError);
-      const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
-      throw new Error(`Failed to connect to transcription service: ${errorMessage}`);
+  if (findEncryptionEnvelope(key)) {
+    const encrypted = await storageBackend.getObject(key);
+    if (!encrypted) {
+      throw new IpcRequestError("not-found", "Recording not found in storage");
     }
+    const data = await getRecordingEncryption().decrypt(encrypted);
+    return { data: new Uint8Array(data), mimeType: getContentTypeForKey(key) };
+  }
 
-    console.log(`Transcription worker responded with status: ${response.status}`);
+  const signedUrl = await storageBackend.getSignedUrl(key);
+  if (!signedUrl) {
+    throw new IpcRequestError("failed", "Could not generate a playback URL");
+  }
 
-    if (!response.ok) {
-      let errorData;
-      try {
-        errorData = await response.json();
-      } catch (jsonError) {
-        console.error("Could not parse error response:", jsonError);
-        throw new Error(`Transcription failed with status ${response.status}`);
-      }
+  return { url: signedUrl };
+});
 
-      const errorMessage = errorData.error || "Transcription failed";
-      console.error(`Worker returned error response: ${errorMessage}`);
+handleInvoke("delete-audio", async (_event, key) => {
+  if (!key) {
+    throw new IpcRequestError("invalid-request", "No key provided for deletion");
+  }
 
-      if (
-        errorMessage.includes("API key not configured") ||
-        errorMessage.includes("Invalid API key") ||
-        errorMessage.includes("Authentication")
-      ) {
-        throw new Error("OpenAI API key not configured or invalid. Please configure it in the Cloudflare worker.");
-      }
+  if (!storageBackend) {
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
 
-      throw new Error(errorMessage);
-    }
+  await storageBackend.deleteAudio(key);
+  await recordingIndex?.removeKey(key);
+  console.log(`Deleted audio ${key}`);
+});
 
-    sendProgressUpdate(100, "Finalizing transcription...");
+handleInvoke("delete-session", async (_event, sessionId) => {
+  if (!sessionId) {
+    throw new IpcRequestError("invalid-request", "No session ID provided for deletion");
+  }
 
-    const result = await response.json();
+  if (!recordingSessionService) {
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
 
-    const transcriptionLength = result.transcription ? result.transcription.length : 0;
-    const wordCount = result.transcription ? result.transcription.split(/\s+/).length : 0;
-    console.log(
-      `Transcription completed successfully for ${key}. Result length: ${transcriptionLength} characters, ${wordCount} words`
-    );
+  const session = await recordingSessionService.deleteSession(sessionId);
+  await recordingIndex?.removeSession(sessionId);
+  if (session?.assetKey) {
+    await transcriptIndex?.remove(session.assetKey);
+  }
+  console.log(`Deleted recording session ${sessionId}`);
+});
 
-    clearProgressInterval();
+handleSend("concatenate-session", async (_event, sessionId) => {
+  if (sessionId) {
+    await finalizeSession(sessionId);
+  }
+});
 
-    event.sender.send("transcription-status", {
-      success: true,
-      key,
-      transcription: result.transcription,
-      wordCount,
-      characterCount: transcriptionLength,
-    });
+handleInvoke("update-recording-metadata", async (_event, request) => {
+  if (!request || !request.key) {
+    throw new IpcRequestError("invalid-request", "No recording provided");
+  }
 
-    console.log("Refreshing audio history with new transcription data");
-    await sendAudioHistory(event.sender);
-  } catch (error) {
-    clearProgressInterval();
+  if (!recordingIndex) {
+    throw new IpcRequestError("not-configured", "Recording index not initialized");
+  }
 
-    sendProgressUpdate(-1, "Transcription failed");
+  await recordingIndex.updateMetadata(request.key, {
+    title: typeof request.title === "string" ? request.title : undefined,
+    tags: Array.isArray(request.tags) ? request.tags.filter((tag) => typeof tag === "string") : undefined,
+  });
 
-    console.error("Transcription error:", error);
+  console.log(`Updated metadata for ${request.key}`);
+});
 
-    if (error instanceof Error) {
-      if (error.message.includes("fetch") || error.message.includes("network")) {
-        console.error(`Network error during transcription request: ${error.message}`);
-      } else if (error.message.includes("timeout")) {
-        console.error(`Transcription request timed out: ${error.message}`);
-      } else if (error.message.includes("JSON")) {
-        console.error(`Invalid JSON response from transcription service: ${error.message}`);
-      }
-    }
+handleInvoke("rename-speakers", async (_event, request) => {
+  if (!request || !request.key || !request.speakers) {
+    throw new IpcRequestError("invalid-request", "No recording or speaker names provided");
+  }
 
-    event.sender.send("transcription-status", {
-      success: false,
-      key,
-      error: error instanceof Error ? error.message : String(error),
-    });
+  if (!storageBackend) {
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
+
+  const transcriptionKey = getTranscriptionKey(request.key);
+  const stored = await storageBackend.getJson<Record<string, unknown>>(transcriptionKey);
+  if (!stored) {
+    throw new IpcRequestError("not-found", "Transcription not found");
   }
+
+  const updated = renameSpeakers(stored, request.speakers);
+  await storageBackend.putJson(transcriptionKey, updated);
+
+  console.log(`Saved speaker names for ${request.key}`);
 });
 
-async function sendAudioHistory(sender: Electron.WebContents) {
-  if (!r2UploadService) {
-    sender.send("upload-status", "R2 service not available");
-    sender.send("audio-history", []);
-    return;
+handleInvoke("export-transcript", async (event, request) => {
+  if (!request || !request.key) {
+    throw new IpcRequestError("invalid-request", "No recording provided for export");
   }
 
-  try {
-    let audioFiles = r2UploadService.getAudioHistory();
-
-    if (audioFiles.length === 0) {
-      console.log("No audio history in memory, attempting to load from R2...");
-      try {
-        audioFiles = await r2UploadService.loadHistory();
-        console.log(`Loaded ${audioFiles.length} audio files from R2 storage`);
-      } catch (loadError) {
-        console.error("Error loading history from R2:", loadError);
-      }
-    }
+  if (!isTranscriptExportFormat(request.format)) {
+    throw new IpcRequestError("unsupported", `Unsupported export format: ${request.format}`);
+  }
 
-    const checkedKeys = new Set();
+  if (!storageBackend) {
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
 
-    for (const file of audioFiles) {
-      if (file.transcription || checkedKeys.has(file.key)) {
-        continue;
-      }
+  const stored = await storageBackend.getJson<unknown>(getTranscriptionKey(request.key));
+  const transcript = parseTranscriptDocument(stored);
+  if (!transcript) {
+    throw new IpcRequestError("not-found", "Transcription not found");
+  }
 
-      checkedKeys.add(file.key);
+  const { name, extension } = TRANSCRIPT_EXPORT_FORMATS[request.format];
+  const baseName = (request.key.split("/").pop() || "transcript").replace(/\.[^.]+$/, "");
 
-      try {
-        const filename = file.key.split("/").pop() || "";
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const saveOptions = {
+    title: "Export Transcript",
+    defaultPath: path.join(app.getPath("documents"), `${baseName}.${extension}`),
+    filters: [{ name, extensions: [extension] }],
+  };
+  const { canceled, filePath } = window
+    ? await dialog.showSaveDialog(window, saveOptions)
+    : await dialog.showSaveDialog(saveOptions);
 
-        const R2_FOLDER_NAME = process.env.R2_FOLDER_NAME || "audio";
+  if (canceled || !filePath) {
+    console.log("Transcript export cancelled");
+    return null;
+  }
 
-        let r2FolderName = R2_FOLDER_NAME;
+  await fs.writeFile(filePath, exportTranscript(request.format, transcript, stored, baseName), "utf-8");
 
-        if (file.key.includes("/")) {
-          const pathParts = file.key.split("/");
-          if (pathParts.length > 1 && pathParts[0]) {
-            r2FolderName = pathParts[0];
-          }
-        }
+  console.log(`Exported transcript for ${request.key} to ${filePath}`);
+  return filePath;
+});
+
+handleInvoke("search-transcripts", async (_event, query) => {
+  if (!transcriptIndex) {
+    throw new IpcRequestError("not-configured", "Transcript search is not available yet");
+  }
+
+  const results = transcriptIndex.search(typeof query === "string" ? query : "");
+  console.log(`Transcript search for "${results.query}" returned ${results.matches.length} match(es)`);
+  return results;
+});
+
+const TRANSCRIPTION_JOB_PROGRESS: Record<TranscriptionJobStatus, { progress: number; message: string }> = {
+  queued: { progress: 10, message: "Transcription job queued..." },
+  running: { progress: 50, message: "Transcribing audio..." },
+  succeeded: { progress: 100, message: "Transcription complete" },
+  failed: { progress: -1, message: "Transcription failed" },
+};
+
+handleInvoke("transcribe-audio", async (event, key) => {
+  const sendProgressUpdate = (progressValue: number, message: string, status?: TranscriptionJobStatus) => {
+    try {
+      push(event.sender, "transcription-progress", {
+        key,
+        progress: progressValue,
+        message,
+        status,
+      });
+    } catch (err) {
+      console.error("Error sending progress update:", err);
+    }
+  };
 
-        console.log(`Looking for transcription in "${r2FolderName}/transcriptions/" folder`);
+  console.log(`Transcription requested for audio: ${key}`);
 
-        const transcriptionKey = `${r2FolderName}/transcriptions/${filename}.json`;
+  if (!key) {
+    throw new IpcRequestError("invalid-request", "No recording provided for transcription");
+  }
 
-        const transcriptionObj = await r2UploadService.s3Client
-          .getObject({
-            Bucket: r2UploadService.bucketName,
-            Key: transcriptionKey,
-          })
-          .promise();
+  if (!storageBackend) {
+    console.error("Transcription failed: storage not initialized");
+    throw new IpcRequestError("not-configured", "Storage not initialized");
+  }
 
-        if (transcriptionObj && transcriptionObj.Body) {
-          const transcriptionData = transcriptionObj.Body.toString("utf-8");
-          const parsedData = JSON.parse(transcriptionData);
+  if (r2Config.storageBackend !== "r2") {
+    throw new IpcRequestError(
+      "unsupported",
+      `Transcription needs R2 storage, the worker cannot read from ${storageBackend.label} storage`
+    );
+  }
 
-          if (parsedData && parsedData.transcription) {
-            file.transcription = parsedData.transcription;
-            console.log(`Found transcription for ${file.key}`);
-          }
-        }
-      } catch (err) {
-        console.log(`No transcription found for ${file.key}`);
+  if (!r2Config.workerUrl) {
+    console.error("Transcription failed: Worker URL not configured");
+    throw new IpcRequestError("not-configured", "Worker URL not configured. Please enter it in Settings");
+  }
+
+  console.log(`Using worker endpoint: ${r2Config.workerUrl}/transcribe`);
+  sendProgressUpdate(0, "Submitting transcription job...");
+
+  const jobService = new TranscriptionJobService(r2Config.workerUrl);
+  let job: TranscriptionJob;
+  try {
+    const submittedJob = await jobService.start(key, await getDecryptionKey(findEncryptionEnvelope(key)));
+
+    job = await jobService.waitForCompletion(submittedJob.id, (update) => {
+      const { progress, message } = TRANSCRIPTION_JOB_PROGRESS[update.status];
+      if (update.status !== "failed") {
+        sendProgressUpdate(progress, message, update.status);
       }
+    });
+  } catch (error) {
+    if (error instanceof TranscriptionJobError) {
+      throw new IpcRequestError(error.code, error.message);
     }
+    throw error;
+  }
+
+  if (job.status === "failed") {
+    const errorMessage = job.error || "Transcription failed";
+    console.error(`Transcription job ${job.id} failed: ${errorMessage}`);
+    throw new IpcRequestError(job.errorCode ?? "failed", errorMessage);
+  }
+
+  console.log(
+    `Transcription job ${job.id} completed for ${key}: ${job.wordCount ?? 0} words, ${job.segmentCount ?? 0} segments`
+  );
+
+  return { key, jobId: job.id, wordCount: job.wordCount ?? 0, segmentCount: job.segmentCount ?? 0 };
+});
 
-    const validatedFiles = audioFiles.filter((file) => {
-      const isValid = file && typeof file.key === "string" && typeof file.timestamp === "string";
-      if (!isValid) {
-        console.warn("Filtered out invalid audio file entry:", file);
+/**
+ * Returns a page of the history from the local index. The first page also starts a reconcile with storage,
+ * and the refreshed page is pushed on audio-history if anything changed
+ */
+async function getAudioHistory(sender: Electron.WebContents, query?: AudioHistoryQuery): Promise<AudioHistoryPage> {
+  if (query) {
+    historyFilters = { from: query.from, to: query.to, hasTranscription: query.hasTranscription };
+  }
+  const pageQuery: AudioHistoryQuery = { ...historyFilters, cursor: query?.cursor, pageSize: query?.pageSize };
+
+  if (!storageBackend || !recordingIndex) {
+    throw new IpcRequestError("not-configured", "Storage not available");
+  }
+
+  if (!recordingIndex.isPopulated()) {
+    console.log("Recording index is empty, building it from storage...");
+    await refreshHistoryIndex();
+  }
+
+  const page = queryHistory(getIndexedHistory(), pageQuery);
+  console.log(`Sending ${page.items.length} of ${page.total} matching audio files to renderer`);
+
+  if (!pageQuery.cursor) {
+    refreshHistoryIndex().then((changed) => {
+      if (changed && !sender.isDestroyed()) {
+        console.log("History changed in storage, sending refreshed history");
+        push(sender, "audio-history", queryHistory(getIndexedHistory(), { ...pageQuery }));
       }
-      return isValid;
     });
+  }
 
-    console.log(`Sending ${validatedFiles.length} validated audio files to renderer`);
-    sender.send("audio-history", validatedFiles);
+  return page;
+}
+
+// Pushes the first page after main-side changes (uploads, joins, transcripts) the renderer didn't ask for
+async function sendAudioHistory(sender: Electron.WebContents) {
+  try {
+    push(sender, "audio-history", await getAudioHistory(sender));
   } catch (error) {
     console.error("Error sending audio history:", error);
-    sender.send("upload-status", "Error loading audio history");
-    sender.send("audio-history", []);
   }
 }
 
-function formatBytes(bytes: number, decimals = 2): string {
-  if (bytes === 0) return "0 Bytes";
-
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+function getIndexedHistory(): AudioFile[] {
+  if (!recordingIndex) {
+    return [];
+  }
 
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return recordingIndex.list().map((file) => {
+    const transcript = transcriptIndex?.get(file.key);
+    return transcript && transcript.text ? { ...file, transcription: transcript.text, transcript } : file;
+  });
+}
 
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
+function describeUploadError(uploadError: unknown): string {
+  if (uploadError instanceof Error) {
+    if (uploadError.name === "NetworkError" || uploadError.message.includes("network")) {
+      return "Network error while uploading audio. Please check your internet connection.";
+    } else if (uploadError.name === "TimeoutError" || uploadError.message.includes("timeout")) {
+      return "Upload timed out. Please try again later.";
+    } else if (uploadError.message.includes("credentials") || uploadError.message.includes("authentication")) {
+      return "Authentication error. Please check your storage credentials.";
+    } else if (uploadError.message.includes("bucket")) {
+      return "Bucket error. Please verify your bucket name and permissions.";
+    }
+    return `Error uploading audio: ${uploadError.message}`;
+  }
+  return `Error uploading audio: ${String(uploadError)}`;
 }
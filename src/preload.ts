@@ -1,28 +1,64 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from "electron";
 
-contextBridge.exposeInMainWorld("api", {
-  send: (channel: string, data: any) => {
-    const validChannels = ["audio-data", "get-audio-history", "delete-audio", "transcribe-audio"];
-    if (validChannels.includes(channel)) {
-      ipcRenderer.send(channel, data);
+const invoke = <C extends IpcInvokeChannel>(channel: C, request: IpcRequest<C>): Promise<IpcResult<IpcResponse<C>>> =>
+  ipcRenderer.invoke(channel, request);
+
+const sendChannels: IpcSendChannel[] = [
+  "recording-segment-start",
+  "recording-chunk",
+  "recording-state",
+  "concatenate-session",
+  "retry-uploads",
+];
+
+const pushChannels: IpcPushChannel[] = [
+  "upload-status",
+  "upload-progress",
+  "upload-queue-status",
+  "audio-history",
+  "transcription-progress",
+  "recording-command",
+  "shortcuts",
+];
+
+const api: ElectronAPI = {
+  uploadSegment: (segment) => invoke("upload-segment", segment),
+  getAudioHistory: (query) => invoke("get-audio-history", query),
+  deleteAudio: (key) => invoke("delete-audio", key),
+  deleteSession: (sessionId) => invoke("delete-session", sessionId),
+  transcribeAudio: (key) => invoke("transcribe-audio", key),
+  getPlaybackUrl: (key) => invoke("get-playback-url", key),
+  updateRecordingMetadata: (request) => invoke("update-recording-metadata", request),
+  renameSpeakers: (request) => invoke("rename-speakers", request),
+  exportTranscript: (request) => invoke("export-transcript", request),
+  searchTranscripts: (query) => invoke("search-transcripts", query),
+  getUnfinishedRecordings: () => invoke("get-unfinished-recordings", undefined),
+  recoverRecordings: () => invoke("recover-recordings", undefined),
+  discardRecordings: () => invoke("discard-recordings", undefined),
+  getSettings: () => invoke("get-settings", undefined),
+  saveSettings: (input) => invoke("save-settings", input),
+  testConnection: (input) => invoke("test-connection", input),
+  migrateEnvCredentials: () => invoke("migrate-env-credentials", undefined),
+  getShortcuts: () => invoke("get-shortcuts", undefined),
+  updateShortcuts: (shortcuts) => invoke("update-shortcuts", shortcuts),
+  send: (channel, payload) => {
+    // The renderer is untrusted, so channel names are still checked at runtime
+    if (sendChannels.includes(channel)) {
+      ipcRenderer.send(channel, payload);
     }
   },
-  receive: (channel: string, func: (...args: any[]) => void) => {
-    const validChannels = [
-      "upload-status", 
-      "audio-history", 
-      "upload-progress", 
-      "transcription-status", 
-      "transcription-progress"
-    ];
-    if (validChannels.includes(channel)) {
-      const subscription = (_event: IpcRendererEvent, ...args: any[]) => func(...args);
-      ipcRenderer.on(channel, subscription);
-      
-      return () => {
-        ipcRenderer.removeListener(channel, subscription);
-      };
+  receive: (channel, listener) => {
+    if (!pushChannels.includes(channel)) {
+      return () => undefined;
     }
-    return undefined;
-  }
-});
\ No newline at end of file
+
+    const subscription = (_event: IpcRendererEvent, payload: IpcPushChannels[typeof channel]) => listener(payload);
+    ipcRenderer.on(channel, subscription);
+
+    return () => {
+      ipcRenderer.removeListener(channel, subscription);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld("api", api);
@@ -1,39 +1,169 @@
-interface AudioFile {
-  key: string;
-  timestamp: string;
-  size: number;
-  url?: string;
-  transcription?: string;
+type CaptureMode = 'microphone' | 'mixed' | 'separate';
+
+interface VoiceActivitySettings {
+  enabled: boolean;
+  thresholdDb: number;
+  silenceGapSeconds: number;
+  autoStopMinutes: number;
+}
+
+interface TrackRecorder {
+  sessionId: string;
+  stream: MediaStream;
+  track?: RecordingTrack;
+  recordingId?: string;
+  recorder: MediaRecorder | null;
+  segmentIndex: number;
+  segmentStartedMs: number;
+  currentSegment: PendingSegment | null;
 }
 
 document.addEventListener('DOMContentLoaded', () => {
   const startButton = document.getElementById('startButton') as HTMLButtonElement;
   const stopButton = document.getElementById('stopButton') as HTMLButtonElement;
+  const pauseButton = document.getElementById('pauseButton') as HTMLButtonElement;
+  const recordingLabel = document.getElementById('recordingLabel') as HTMLSpanElement;
+  const recordingTimer = document.getElementById('recordingTimer') as HTMLSpanElement;
+  const formatSelect = document.getElementById('formatSelect') as HTMLSelectElement;
+  const deviceSelect = document.getElementById('deviceSelect') as HTMLSelectElement;
+  const captureModeSelect = document.getElementById('captureModeSelect') as HTMLSelectElement;
+  const vadEnabledInput = document.getElementById('vadEnabled') as HTMLInputElement;
+  const vadThresholdInput = document.getElementById('vadThreshold') as HTMLInputElement;
+  const vadSilenceGapInput = document.getElementById('vadSilenceGap') as HTMLInputElement;
+  const vadAutoStopInput = document.getElementById('vadAutoStop') as HTMLInputElement;
+  const shortcutInputs = {
+    start: document.getElementById('shortcutStart') as HTMLInputElement,
+    stop: document.getElementById('shortcutStop') as HTMLInputElement,
+    pause: document.getElementById('shortcutPause') as HTMLInputElement,
+  };
+  const saveShortcutsButton = document.getElementById('saveShortcutsButton') as HTMLButtonElement;
+  const settingsButton = document.getElementById('settingsButton') as HTMLButtonElement;
+  const settingsPanel = document.getElementById('settingsPanel') as HTMLFormElement;
+  const testConnectionButton = document.getElementById('testConnectionButton') as HTMLButtonElement;
+  const connectionTestResult = document.getElementById('connectionTestResult') as HTMLSpanElement;
+  const envMigrationNotice = document.getElementById('envMigrationNotice') as HTMLDivElement;
+  const migrateEnvButton = document.getElementById('migrateEnvButton') as HTMLButtonElement;
+  const dismissEnvMigrationButton = document.getElementById('dismissEnvMigrationButton') as HTMLButtonElement;
+  const recoveryNotice = document.getElementById('recoveryNotice') as HTMLDivElement;
+  const recoveryMessage = document.getElementById('recoveryMessage') as HTMLSpanElement;
+  const recoverRecordingsButton = document.getElementById('recoverRecordingsButton') as HTMLButtonElement;
+  const discardRecordingsButton = document.getElementById('discardRecordingsButton') as HTMLButtonElement;
+  const SETTINGS_FIELDS: (keyof AppSettings)[] = [
+    'storageBackend',
+    'accountId',
+    'accessKeyId',
+    'secretAccessKey',
+    'bucketName',
+    'folderName',
+    'workerUrl',
+    'endpoint',
+    'region',
+    'localPath',
+    'encryption',
+    'maxRetries',
+    'requestTimeout',
+    'connectTimeout',
+  ];
+  const shortcutErrors = document.getElementById('shortcutErrors') as HTMLDivElement;
+  const levelMeterFill = document.getElementById('levelMeterFill') as HTMLDivElement;
   const statusDiv = document.getElementById('status') as HTMLDivElement;
   const uploadIndicator = document.getElementById('uploadIndicator') as HTMLDivElement;
   const uploadStatus = document.getElementById('uploadStatus') as HTMLDivElement;
   const audioHistoryContainer = document.getElementById('audioHistory') as HTMLDivElement;
   const emptyHistoryMessage = document.getElementById('emptyHistory') as HTMLDivElement;
   const notificationSound = document.getElementById('notificationSound') as HTMLAudioElement;
+  const uploadQueueContainer = document.getElementById('uploadQueue') as HTMLDivElement;
+  const uploadQueueSummary = document.getElementById('uploadQueueSummary') as HTMLSpanElement;
+  const retryUploadsButton = document.getElementById('retryUploadsButton') as HTMLButtonElement;
+  const transcriptSearchInput = document.getElementById('transcriptSearchInput') as HTMLInputElement;
+  const transcriptSearchResults = document.getElementById('transcriptSearchResults') as HTMLDivElement;
+  const historyFromInput = document.getElementById('historyFrom') as HTMLInputElement;
+  const historyToInput = document.getElementById('historyTo') as HTMLInputElement;
+  const historyTranscribedOnly = document.getElementById('historyTranscribedOnly') as HTMLInputElement;
+  const historySentinel = document.getElementById('historySentinel') as HTMLDivElement;
 
-  let mediaRecorder: MediaRecorder | null = null;
-  let audioChunks: Blob[] = [];
-  const CHUNK_INTERVAL = 2000;
+  let trackRecorders: TrackRecorder[] = [];
+  let capturedStreams: MediaStream[] = [];
+  let mixContext: AudioContext | null = null;
+  const SEGMENT_DURATION = 60000;
   const TIME_SLICE = 500;
-  let intervalId: number | null = null;
+  const RECORDING_TICK = 100;
+  let recordingStartedAt: number | null = null;
+  let recordingStoppedAt: number | null = null;
+  let pausedAt: number | null = null;
+  let pausedTotalMs = 0;
+  const AUDIO_FORMAT_OPTIONS = [
+    { mimeType: 'audio/webm;codecs=opus', label: 'Opus (WebM)' },
+    { mimeType: 'audio/ogg;codecs=opus', label: 'Opus (OGG)' },
+    { mimeType: 'audio/wav', label: 'WAV' },
+    { mimeType: 'audio/mpeg', label: 'MP3' },
+  ];
+  const AUDIO_FORMAT_STORAGE_KEY = 'audioFormat';
+  let recordingMimeType = AUDIO_FORMAT_OPTIONS[0].mimeType;
+  const AUDIO_DEVICE_STORAGE_KEY = 'audioInputDevice';
+  const LEVEL_METER_FLOOR_DB = -60;
+  let meterContext: AudioContext | null = null;
+  let meterFrameId: number | null = null;
+  const CAPTURE_MODE_OPTIONS: { value: CaptureMode; label: string }[] = [
+    { value: 'microphone', label: 'Microphone only' },
+    { value: 'mixed', label: 'Microphone + system audio (mixed)' },
+    { value: 'separate', label: 'Microphone + system audio (separate tracks)' },
+  ];
+  const CAPTURE_MODE_STORAGE_KEY = 'captureMode';
+  const VAD_STORAGE_KEY = 'voiceActivity';
+  const DEFAULT_VAD_SETTINGS: VoiceActivitySettings = {
+    enabled: false,
+    thresholdDb: -50,
+    silenceGapSeconds: 2,
+    autoStopMinutes: 0,
+  };
+  let vadSettings = DEFAULT_VAD_SETTINGS;
+  let vadContext: AudioContext | null = null;
+  let vadAnalysers: AnalyserNode[] = [];
+  let heardVoice = false;
+  let silenceStartedAt: number | null = null;
+  let trimmedAt: number | null = null;
+  let trimmedTotalMs = 0;
+  const TRANSCRIPT_EXPORT_OPTIONS = [
+    { value: 'srt', label: 'SRT' },
+    { value: 'vtt', label: 'WebVTT' },
+    { value: 'txt', label: 'Text' },
+    { value: 'md', label: 'Markdown' },
+    { value: 'json', label: 'JSON' },
+  ];
+  let segmentIntervalId: number | null = null;
+  let searchTimeoutId: number | null = null;
+  const SEARCH_DEBOUNCE = 250;
+  const HISTORY_PAGE_SIZE = 20;
+  let historyCursor: string | undefined;
+  let isLoadingHistory = false;
+  let pendingSearchMatch: TranscriptSearchMatch | null = null;
+  const pendingPlayback = new Map<string, Promise<HTMLAudioElement | null>>();
+  // Object URLs of decrypted recordings hold the whole plaintext audio until they are revoked
+  const playbackObjectUrls = new Map<HTMLAudioElement, string>();
   let isUploading = false;
   let isRecording = false;
   
   const recordingIndicator = document.getElementById('recordingIndicator') as HTMLDivElement;
 
+  // The main process mirrors this in the tray icon and menu
+  function reportRecordingActivity(): void {
+    const activity: RecordingActivity = trackRecorders.length === 0 ? 'idle' : pausedAt !== null ? 'paused' : 'recording';
+    window.api.send('recording-state', activity);
+  }
+
   function showRecordingIndicator(): void {
     isRecording = true;
-    recordingIndicator.classList.remove('hidden');
+    recordingLabel.textContent = 'Recording audio...';
+    recordingTimer.textContent = formatDuration(0);
+    recordingIndicator.classList.remove('paused', 'hidden');
+    reportRecordingActivity();
   }
   
   function hideRecordingIndicator(): void {
     isRecording = false;
     recordingIndicator.classList.add('hidden');
+    reportRecordingActivity();
   }
   
   function updateStatus(message: string, isError = false, isRecordingState = false): void {
@@ -98,7 +228,11 @@ document.addEventListener('DOMContentLoaded', () => {
     
     stagesProgress.style.width = `${stagesWidth}%`;
     
-    uploadStatus.textContent = progressEvent.message;
+    if (progressEvent.stage === 'uploading' && progressEvent.totalBytes) {
+      uploadStatus.textContent = `${progressEvent.message} ${formatFileSize(progressEvent.bytesUploaded || 0)} of ${formatFileSize(progressEvent.totalBytes)}`;
+    } else {
+      uploadStatus.textContent = progressEvent.message;
+    }
     
     const stageMap = {
       'preparing': 'stagePrep',
@@ -124,152 +258,737 @@ document.addEventListener('DOMContentLoaded', () => {
     });
   }
 
+  function populateFormatSelect(): void {
+    const savedFormat = localStorage.getItem(AUDIO_FORMAT_STORAGE_KEY);
+    
+    AUDIO_FORMAT_OPTIONS.forEach(format => {
+      const supported = MediaRecorder.isTypeSupported(format.mimeType);
+      const option = document.createElement('option');
+      option.value = format.mimeType;
+      option.textContent = supported ? format.label : `${format.label} (not supported)`;
+      option.disabled = !supported;
+      formatSelect.appendChild(option);
+    });
+    
+    const supportedFormats = AUDIO_FORMAT_OPTIONS.filter(format => MediaRecorder.isTypeSupported(format.mimeType));
+    const selectedFormat = supportedFormats.find(format => format.mimeType === savedFormat) || supportedFormats[0];
+    if (selectedFormat) {
+      formatSelect.value = selectedFormat.mimeType;
+    } else {
+      console.warn('None of the audio formats are supported by MediaRecorder, using the browser default');
+      formatSelect.value = '';
+    }
+    
+    formatSelect.addEventListener('change', () => {
+      localStorage.setItem(AUDIO_FORMAT_STORAGE_KEY, formatSelect.value);
+      console.log(`Recording format set to ${formatSelect.value}`);
+    });
+  }
+
+  async function populateDeviceSelect(): Promise<void> {
+    const savedDeviceId = localStorage.getItem(AUDIO_DEVICE_STORAGE_KEY) || '';
+    
+    let inputs: MediaDeviceInfo[] = [];
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      inputs = devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default');
+    } catch (err) {
+      console.error('Error listing audio input devices:', err);
+    }
+    
+    deviceSelect.innerHTML = '';
+    
+    const defaultOption = document.createElement('option');
+    defaultOption.value = '';
+    defaultOption.textContent = 'System default';
+    deviceSelect.appendChild(defaultOption);
+    
+    inputs.forEach((device, index) => {
+      const option = document.createElement('option');
+      option.value = device.deviceId;
+      option.textContent = device.label || `Microphone ${index + 1}`;
+      deviceSelect.appendChild(option);
+    });
+    
+    // A remembered device that is unplugged falls back to the default without forgetting the choice,
+    // so it is picked again as soon as it reappears
+    deviceSelect.value = inputs.some(device => device.deviceId === savedDeviceId) ? savedDeviceId : '';
+    console.log(`Found ${inputs.length} audio input device(s)`);
+  }
+
+  function measureLevel(analyser: AnalyserNode): number {
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    
+    let sumOfSquares = 0;
+    for (const sample of samples) {
+      sumOfSquares += sample * sample;
+    }
+    const rms = Math.sqrt(sumOfSquares / samples.length);
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+
+  function startLevelMeter(stream: MediaStream): void {
+    try {
+      meterContext = new AudioContext();
+      const analyser = meterContext.createAnalyser();
+      analyser.fftSize = 1024;
+      meterContext.createMediaStreamSource(stream).connect(analyser);
+      
+      const draw = () => {
+        const decibels = Math.max(measureLevel(analyser), LEVEL_METER_FLOOR_DB);
+        const level = Math.min(Math.max((decibels - LEVEL_METER_FLOOR_DB) / -LEVEL_METER_FLOOR_DB, 0), 1);
+        
+        levelMeterFill.style.width = `${Math.round(level * 100)}%`;
+        meterFrameId = requestAnimationFrame(draw);
+      };
+      draw();
+    } catch (err) {
+      console.warn('Could not start the input level meter:', err);
+    }
+  }
+
+  function stopLevelMeter(): void {
+    if (meterFrameId !== null) {
+      cancelAnimationFrame(meterFrameId);
+      meterFrameId = null;
+    }
+    if (meterContext) {
+      meterContext.close().catch(error => console.warn('Error closing level meter audio context:', error));
+      meterContext = null;
+    }
+    levelMeterFill.style.width = '0%';
+  }
+
+  function getSettingsInput(field: keyof AppSettings): HTMLInputElement | HTMLSelectElement {
+    return settingsPanel.elements.namedItem(field) as HTMLInputElement | HTMLSelectElement;
+  }
+
+  function readSettingsForm(): AppSettings {
+    const settings = {} as Record<keyof AppSettings, string>;
+    SETTINGS_FIELDS.forEach(field => {
+      settings[field] = getSettingsInput(field).value;
+    });
+    return settings as AppSettings;
+  }
+
+  // Only the fields the selected backend uses are shown; labels list their backends in data-backends
+  function updateStorageFields(): void {
+    const backend = getSettingsInput('storageBackend').value;
+    settingsPanel.querySelectorAll<HTMLLabelElement>('label[data-backends]').forEach(label => {
+      const backends = (label.dataset.backends || '').split(' ');
+      label.classList.toggle('hidden', !backends.includes(backend));
+    });
+  }
+
+  function renderSettings(status: SettingsStatus): void {
+    const errors = status.errors || {};
+    
+    SETTINGS_FIELDS.forEach(field => {
+      const input = getSettingsInput(field);
+      if (field === 'accessKeyId' || field === 'secretAccessKey') {
+        // Stored credentials are never sent back, so an empty field means "keep the current value"
+        if (!status.errors) {
+          input.value = '';
+        }
+        (input as HTMLInputElement).placeholder = status.storedSecrets[field] ? 'Stored securely, leave blank to keep' : '';
+      } else {
+        input.value = status.settings[field] || '';
+      }
+      input.classList.toggle('invalid', Boolean(errors[field]));
+      
+      const label = input.parentElement as HTMLLabelElement;
+      label.querySelector('.settings-error')?.remove();
+      if (errors[field]) {
+        const message = document.createElement('span');
+        message.className = 'settings-error';
+        message.textContent = errors[field] || '';
+        label.appendChild(message);
+      }
+    });
+    
+    updateStorageFields();
+    envMigrationNotice.classList.toggle('hidden', !status.envMigrationAvailable);
+    
+    if (status.saved) {
+      settingsPanel.classList.add('hidden');
+      updateStatus('Settings saved, reconnecting to storage...');
+    } else if (status.missing.length > 0 && status.saved === undefined) {
+      // First launch without .env: open the settings so uploads can be configured
+      settingsPanel.classList.remove('hidden');
+      updateStatus(`Storage is not configured yet: enter ${status.missing.join(', ')} in Settings`, true);
+    }
+  }
+
+  async function loadSettings(): Promise<void> {
+    const result = await window.api.getSettings();
+    if (!result.ok) {
+      console.error('Error loading settings:', result.error);
+      updateStatus(`Error loading settings: ${result.error.message}`, true);
+      return;
+    }
+    
+    renderSettings(result.value);
+  }
+
+  function renderShortcuts(status: ShortcutStatus): void {
+    const commands: RecordingCommand[] = ['start', 'stop', 'pause'];
+    commands.forEach(command => {
+      shortcutInputs[command].value = status.shortcuts[command];
+      shortcutInputs[command].classList.toggle('invalid', Boolean(status.errors[command]));
+    });
+    shortcutErrors.textContent = commands
+      .filter(command => status.errors[command])
+      .map(command => `${command}: ${status.errors[command]}`)
+      .join(' • ');
+  }
+
+  async function loadShortcuts(): Promise<void> {
+    const result = await window.api.getShortcuts();
+    if (!result.ok) {
+      console.error('Error loading shortcuts:', result.error);
+      return;
+    }
+    
+    renderShortcuts(result.value);
+  }
+
+  function populateCaptureModeSelect(): void {
+    const savedMode = localStorage.getItem(CAPTURE_MODE_STORAGE_KEY);
+    const systemAudioSupported = typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+    
+    CAPTURE_MODE_OPTIONS.forEach(mode => {
+      const option = document.createElement('option');
+      option.value = mode.value;
+      option.textContent = mode.label;
+      option.disabled = mode.value !== 'microphone' && !systemAudioSupported;
+      captureModeSelect.appendChild(option);
+    });
+    
+    const selectedMode = CAPTURE_MODE_OPTIONS.find(mode => mode.value === savedMode);
+    captureModeSelect.value = selectedMode && (selectedMode.value === 'microphone' || systemAudioSupported)
+      ? selectedMode.value
+      : 'microphone';
+    
+    captureModeSelect.addEventListener('change', () => {
+      localStorage.setItem(CAPTURE_MODE_STORAGE_KEY, captureModeSelect.value);
+      console.log(`Capture mode set to ${captureModeSelect.value}`);
+    });
+  }
+
+  function setRecordingSettingsDisabled(disabled: boolean): void {
+    formatSelect.disabled = disabled;
+    deviceSelect.disabled = disabled;
+    captureModeSelect.disabled = disabled;
+    vadEnabledInput.disabled = disabled;
+    updateVoiceActivityInputs();
+  }
+
+  function loadVoiceActivitySettings(): void {
+    let saved: Partial<VoiceActivitySettings> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(VAD_STORAGE_KEY) || '{}');
+    } catch (err) {
+      console.warn('Ignoring unreadable voice activity settings:', err);
+    }
+    
+    const settings = { ...DEFAULT_VAD_SETTINGS, ...saved };
+    vadEnabledInput.checked = settings.enabled;
+    vadThresholdInput.value = String(settings.thresholdDb);
+    vadSilenceGapInput.value = String(settings.silenceGapSeconds);
+    vadAutoStopInput.value = String(settings.autoStopMinutes);
+    updateVoiceActivityInputs();
+  }
+
+  function readVoiceActivitySettings(): VoiceActivitySettings {
+    const readNumber = (input: HTMLInputElement, fallback: number) => {
+      const value = input.valueAsNumber;
+      if (!Number.isFinite(value)) {
+        return fallback;
+      }
+      return Math.min(Math.max(value, Number(input.min)), Number(input.max));
+    };
+    
+    return {
+      enabled: vadEnabledInput.checked,
+      thresholdDb: readNumber(vadThresholdInput, DEFAULT_VAD_SETTINGS.thresholdDb),
+      silenceGapSeconds: readNumber(vadSilenceGapInput, DEFAULT_VAD_SETTINGS.silenceGapSeconds),
+      autoStopMinutes: readNumber(vadAutoStopInput, DEFAULT_VAD_SETTINGS.autoStopMinutes),
+    };
+  }
+
+  function updateVoiceActivityInputs(): void {
+    const disabled = vadEnabledInput.disabled || !vadEnabledInput.checked;
+    vadThresholdInput.disabled = disabled;
+    vadSilenceGapInput.disabled = disabled;
+    vadAutoStopInput.disabled = disabled;
+  }
+
+  function saveVoiceActivitySettings(): void {
+    const settings = readVoiceActivitySettings();
+    localStorage.setItem(VAD_STORAGE_KEY, JSON.stringify(settings));
+    updateVoiceActivityInputs();
+    console.log('Voice activity settings saved:', settings);
+  }
+
+  function startVoiceDetection(streams: MediaStream[]): void {
+    vadSettings = readVoiceActivitySettings();
+    heardVoice = false;
+    silenceStartedAt = null;
+    trimmedAt = null;
+    trimmedTotalMs = 0;
+    
+    if (!vadSettings.enabled) {
+      return;
+    }
+    
+    try {
+      const context = new AudioContext();
+      vadAnalysers = streams.map(stream => {
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 1024;
+        context.createMediaStreamSource(stream).connect(analyser);
+        return analyser;
+      });
+      vadContext = context;
+      console.log(`Voice activity detection on at ${vadSettings.thresholdDb} dB`);
+    } catch (err) {
+      console.warn('Could not start voice activity detection, recording without it:', err);
+      vadSettings = { ...vadSettings, enabled: false };
+    }
+  }
+
+  function stopVoiceDetection(): void {
+    vadAnalysers = [];
+    if (vadContext) {
+      vadContext.close().catch(error => console.warn('Error closing voice detection audio context:', error));
+      vadContext = null;
+    }
+  }
+
+  // Silence is cut by pausing the recorders while nobody speaks: before the first voice, and once a
+  // silent stretch outlasts the configured gap, which also bounds the silence left at the end
+  function detectVoiceActivity(): void {
+    if (!vadSettings.enabled || vadAnalysers.length === 0 || pausedAt !== null) {
+      return;
+    }
+    
+    const now = Date.now();
+    const level = Math.max(...vadAnalysers.map(measureLevel));
+    if (level >= vadSettings.thresholdDb) {
+      heardVoice = true;
+      silenceStartedAt = null;
+      stopTrimming();
+      return;
+    }
+    
+    if (silenceStartedAt === null) {
+      silenceStartedAt = now;
+    }
+    const silentFor = now - silenceStartedAt;
+    
+    if (vadSettings.autoStopMinutes > 0 && silentFor >= vadSettings.autoStopMinutes * 60000) {
+      console.log(`No voice for ${vadSettings.autoStopMinutes} minute(s), stopping the recording`);
+      stopRecording();
+      updateStatus(`Recording stopped after ${vadSettings.autoStopMinutes} minute(s) of silence`);
+      return;
+    }
+    
+    if (trimmedAt === null && (!heardVoice || silentFor >= vadSettings.silenceGapSeconds * 1000)) {
+      trimmedAt = now;
+      pauseRecorders();
+    }
+  }
+
+  function stopTrimming(): void {
+    if (trimmedAt === null) {
+      return;
+    }
+    trimmedTotalMs += Date.now() - trimmedAt;
+    trimmedAt = null;
+    resumeRecorders();
+  }
+
+  function getTrimmedMs(): number {
+    const end = recordingStoppedAt ?? Date.now();
+    return trimmedTotalMs + (trimmedAt !== null ? end - trimmedAt : 0);
+  }
+
+  async function getMicrophoneStream(): Promise<MediaStream> {
+    const deviceId = deviceSelect.value;
+    return navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId: { exact: deviceId } } : true })
+      .catch(error => {
+        if (error.name === 'OverconstrainedError') {
+          throw new Error('The selected microphone is no longer available. Choose another input device and try again.');
+        } else if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
+          throw new Error('Microphone access denied. Please allow microphone access to record audio.');
+        } else if (error.name === 'NotFoundError' || error.name === 'DevicesNotFoundError') {
+          throw new Error('No microphone detected. Please connect a microphone and try again.');
+        } else {
+          throw error;
+        }
+      });
+  }
+
+  async function getSystemAudioStream(): Promise<MediaStream> {
+    // Loopback audio is only handed out together with a screen video track, which is not recorded
+    const stream = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true })
+      .catch(error => {
+        if (error.name === 'NotAllowedError' || error.name === 'NotSupportedError') {
+          throw new Error('System audio capture is not available. Check screen recording permissions or record the microphone only.');
+        }
+        throw error;
+      });
+    
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+    
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No system audio is available to record on this platform. Record the microphone only instead.');
+    }
+    
+    return stream;
+  }
+
+  function mixStreams(streams: MediaStream[]): MediaStream {
+    const context = new AudioContext();
+    const destination = context.createMediaStreamDestination();
+    streams.forEach(stream => context.createMediaStreamSource(stream).connect(destination));
+    mixContext = context;
+    
+    return destination.stream;
+  }
+
+  function createTrackRecorder(stream: MediaStream, track?: RecordingTrack, recordingId?: string): TrackRecorder {
+    return {
+      sessionId: crypto.randomUUID(),
+      stream,
+      track,
+      recordingId,
+      recorder: null,
+      segmentIndex: 0,
+      segmentStartedMs: 0,
+      currentSegment: null,
+    };
+  }
+
+  function describeTrack(track?: RecordingTrack): string {
+    return track === 'system' ? 'System audio' : 'Microphone';
+  }
+
   async function startRecording(): Promise<void> {
     try {
-      updateStatus('Requesting microphone access...');
+      const captureMode = captureModeSelect.value as CaptureMode;
+      updateStatus(captureMode === 'microphone' ? 'Requesting microphone access...' : 'Requesting microphone and system audio access...');
       
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         throw new Error('Audio recording is not supported in this browser');
       }
       
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
-        .catch(error => {
-          if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-            throw new Error('Microphone access denied. Please allow microphone access to record audio.');
-          } else if (error.name === 'NotFoundError' || error.name === 'DevicesNotFoundError') {
-            throw new Error('No microphone detected. Please connect a microphone and try again.');
-          } else {
-            throw error;
-          }
-        });
+      const microphone = await getMicrophoneStream();
+      capturedStreams = [microphone];
       
-      audioChunks = [];
-      console.log("Cleared existing audio chunks before starting new recording");
+      // Device labels are only exposed once microphone access has been granted
+      populateDeviceSelect();
       
-      try {
-        const options = { 
-          audioBitsPerSecond: 128000,
-          mimeType: 'audio/webm' 
-        };
-        mediaRecorder = new MediaRecorder(stream, options);
-        console.log("Created media recorder with options:", options);
-      } catch (mediaError) {
-        console.error("MediaRecorder initialization error:", mediaError);
-        throw new Error(`Failed to create media recorder: ${mediaError instanceof Error ? mediaError.message : String(mediaError)}`);
-      }
-      
-      mediaRecorder.onerror = (event) => {
-        const error = event.error || new Error('Unknown recording error');
-        console.error('MediaRecorder error:', error);
-        updateStatus(`Recording error: ${error.message}`, true);
-      };
+      recordingMimeType = formatSelect.value;
+      setRecordingSettingsDisabled(true);
       
-      mediaRecorder.ondataavailable = (event) => {
-        console.log(`Data available event fired with data size: ${event.data.size} bytes`);
-        if (event.data.size > 0) {
-          audioChunks.push(event.data);
-          console.log(`Added chunk, now have ${audioChunks.length} chunks`);
+      if (captureMode === 'microphone') {
+        trackRecorders = [createTrackRecorder(microphone)];
+      } else {
+        const systemAudio = await getSystemAudioStream();
+        capturedStreams.push(systemAudio);
+        
+        if (captureMode === 'mixed') {
+          trackRecorders = [createTrackRecorder(mixStreams(capturedStreams))];
         } else {
-          console.warn("Received empty data chunk from MediaRecorder");
+          // Each track is its own session so it is joined and transcribed on its own; the shared
+          // recording id ties the two sessions back together in the history
+          const recordingId = crypto.randomUUID();
+          trackRecorders = [
+            createTrackRecorder(microphone, 'microphone', recordingId),
+            createTrackRecorder(systemAudio, 'system', recordingId),
+          ];
         }
-      };
+      }
       
-      mediaRecorder.onstop = () => {
-        console.log("MediaRecorder stopped event fired");
-        console.log(`Final audio chunks count: ${audioChunks.length}`);
-        
-        setTimeout(() => {
-          const totalChunks = audioChunks.length;
-          console.log(`Processing ${totalChunks} total audio chunks after stop event`);
-          if (totalChunks > 0) {
-            processAudioChunks();
-          } else {
-            console.log("No audio chunks to process after stopping");
-            updateStatus("No audio data captured", true);
-          }
-        }, 200);
-      };
+      startLevelMeter(trackRecorders[0].stream);
       
-      try {
-        console.log(`Starting MediaRecorder with ${TIME_SLICE}ms time slices`);
-        mediaRecorder.start(TIME_SLICE);
-        
-        console.log(`Media recorder state after start: ${mediaRecorder.state}`);
-      } catch (startError) {
-        console.error("Error starting MediaRecorder:", startError);
-        throw new Error(`Failed to start recording: ${startError instanceof Error ? startError.message : String(startError)}`);
-      }
+      recordingStartedAt = Date.now();
+      recordingStoppedAt = null;
+      pausedAt = null;
+      pausedTotalMs = 0;
+      startVoiceDetection(trackRecorders.map(({ stream }) => stream));
       
-      intervalId = window.setInterval(() => {
-        const chunkCount = audioChunks.length;
-        console.log(`Interval check: ${chunkCount} chunks available`);
-        if (chunkCount > 0 && chunkCount % 4 === 0) {
-          processAudioChunks();
-        }
-      }, CHUNK_INTERVAL);
+      trackRecorders.forEach(trackRecorder => {
+        const trackLabel = trackRecorder.track ? ` (${trackRecorder.track} track)` : '';
+        console.log(`Starting recording session ${trackRecorder.sessionId}${trackLabel} as ${recordingMimeType || 'the default format'}`);
+        trackRecorder.recorder = startSegment(trackRecorder);
+      });
+      
+      // Segments rotate on recorded time rather than wall-clock time so paused stretches don't count
+      segmentIntervalId = window.setInterval(() => {
+        detectVoiceActivity();
+        updateRecordingTimer();
+        trackRecorders
+          .filter(trackRecorder => getRecordedMs() - trackRecorder.segmentStartedMs >= SEGMENT_DURATION)
+          .forEach(rotateSegment);
+      }, RECORDING_TICK);
       
       startButton.disabled = true;
       stopButton.disabled = false;
+      pauseButton.disabled = false;
       updateStatus('Recording audio in progress...', false, true);
       showRecordingIndicator();
     } catch (err) {
-      console.error('Error accessing microphone:', err);
+      console.error('Error starting audio capture:', err);
+      trackRecorders.forEach(({ recorder, currentSegment }) => {
+        if (recorder && recorder.state !== 'inactive') {
+          if (currentSegment) {
+            currentSegment.isFinal = true;
+          }
+          recorder.stop();
+        }
+      });
       stopMediaTracks();
+      trackRecorders = [];
+      setRecordingSettingsDisabled(false);
       hideRecordingIndicator();
-      updateStatus(`Microphone error: ${err instanceof Error ? err.message : String(err)}`, true);
+      updateStatus(`Audio capture error: ${err instanceof Error ? err.message : String(err)}`, true);
+    }
+  }
+  
+  function startSegment(trackRecorder: TrackRecorder): MediaRecorder {
+    let recorder: MediaRecorder;
+    try {
+      const options: MediaRecorderOptions = { 
+        audioBitsPerSecond: 128000,
+        ...(recordingMimeType ? { mimeType: recordingMimeType } : {})
+      };
+      recorder = new MediaRecorder(trackRecorder.stream, options);
+      console.log("Created media recorder with options:", options);
+    } catch (mediaError) {
+      console.error("MediaRecorder initialization error:", mediaError);
+      throw new Error(`Failed to create media recorder: ${mediaError instanceof Error ? mediaError.message : String(mediaError)}`);
+    }
+    
+    const segment: PendingSegment = {
+      sessionId: trackRecorder.sessionId,
+      index: trackRecorder.segmentIndex++,
+      startedAt: new Date().toISOString(),
+      isFinal: false,
+      mimeType: recorder.mimeType || recordingMimeType,
+      ...(trackRecorder.track ? { track: trackRecorder.track, recordingId: trackRecorder.recordingId } : {}),
+    };
+    const segmentStart = getRecordedMs();
+    const trimmedStart = getTrimmedMs();
+    trackRecorder.segmentStartedMs = segmentStart;
+    trackRecorder.currentSegment = segment;
+    
+    // Chunks are written to a spool file by the main process as they arrive, so a crash or a closed
+    // window loses at most one time slice. The writes are chained to keep the chunks in order
+    let capturedBytes = 0;
+    let spoolWrites = Promise.resolve();
+    window.api.send('recording-segment-start', segment);
+    
+    recorder.onerror = (event) => {
+      const error = event.error || new Error('Unknown recording error');
+      console.error('MediaRecorder error:', error);
+      updateStatus(`Recording error: ${error.message}`, true);
+    };
+    
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        capturedBytes += event.data.size;
+        spoolWrites = spoolWrites.then(async () => {
+          const chunk: RecordingChunk = {
+            sessionId: segment.sessionId,
+            index: segment.index,
+            data: new Uint8Array(await event.data.arrayBuffer()),
+          };
+          window.api.send('recording-chunk', chunk);
+        }).catch(err => {
+          console.error(`Error reading audio chunk of segment ${segment.index}:`, err);
+        });
+      } else {
+        console.warn("Received empty data chunk from MediaRecorder");
+      }
+    };
+    
+    recorder.onstop = () => {
+      const durationMs = getRecordedMs() - segmentStart;
+      const trimmed = vadSettings.enabled ? { trimmedSilenceMs: Math.round(getTrimmedMs() - trimmedStart) } : {};
+      console.log(`Segment ${segment.index} of session ${segment.sessionId} stopped after ${durationMs}ms`);
+      
+      spoolWrites.then(() => {
+        finishSegment({ ...segment, durationMs, ...trimmed }, capturedBytes);
+      });
+    };
+    
+    try {
+      console.log(`Starting segment ${segment.index} with ${TIME_SLICE}ms time slices`);
+      recorder.start(TIME_SLICE);
+    } catch (startError) {
+      console.error("Error starting MediaRecorder:", startError);
+      throw new Error(`Failed to start recording: ${startError instanceof Error ? startError.message : String(startError)}`);
+    }
+    
+    return recorder;
+  }
+  
+  function getRecordedMs(): number {
+    if (recordingStartedAt === null) {
+      return 0;
+    }
+    const end = recordingStoppedAt ?? Date.now();
+    const currentPause = pausedAt !== null ? end - pausedAt : 0;
+    return end - recordingStartedAt - pausedTotalMs - currentPause - getTrimmedMs();
+  }
+
+  function updateRecordingTimer(): void {
+    recordingTimer.textContent = formatDuration(getRecordedMs());
+  }
+
+  function pauseRecorders(): void {
+    trackRecorders.forEach(({ recorder }) => {
+      if (recorder && recorder.state === 'recording') {
+        recorder.pause();
+      }
+    });
+  }
+
+  function resumeRecorders(): void {
+    trackRecorders.forEach(({ recorder }) => {
+      if (recorder && recorder.state === 'paused') {
+        recorder.resume();
+      }
+    });
+  }
+
+  function togglePause(): void {
+    if (trackRecorders.length === 0) {
+      return;
+    }
+    
+    if (pausedAt === null) {
+      // A manual pause takes over from silence trimming so the same stretch isn't counted twice
+      if (trimmedAt !== null) {
+        trimmedTotalMs += Date.now() - trimmedAt;
+        trimmedAt = null;
+      }
+      pauseRecorders();
+      pausedAt = Date.now();
+      pauseButton.textContent = 'Resume';
+      recordingLabel.textContent = 'Recording paused';
+      recordingIndicator.classList.add('paused');
+      updateStatus('Recording paused');
+      console.log('Recording paused');
+    } else {
+      pausedTotalMs += Date.now() - pausedAt;
+      pausedAt = null;
+      silenceStartedAt = null;
+      resumeRecorders();
+      pauseButton.textContent = 'Pause';
+      recordingLabel.textContent = 'Recording audio...';
+      recordingIndicator.classList.remove('paused');
+      updateStatus('Recording audio in progress...', false, true);
+      console.log(`Recording resumed after ${formatDuration(pausedTotalMs)} paused in total`);
+    }
+    updateRecordingTimer();
+    reportRecordingActivity();
+  }
+
+  function rotateSegment(trackRecorder: TrackRecorder): void {
+    const previousRecorder = trackRecorder.recorder;
+    
+    try {
+      trackRecorder.recorder = startSegment(trackRecorder);
+    } catch (err) {
+      console.error('Error starting next segment:', err);
+      updateStatus(`Error starting next segment: ${err instanceof Error ? err.message : String(err)}`, true);
+      return;
+    }
+    
+    if (previousRecorder && previousRecorder.state !== 'inactive') {
+      previousRecorder.stop();
     }
   }
   
   function stopMediaTracks(): void {
-    if (mediaRecorder && mediaRecorder.stream) {
-      mediaRecorder.stream.getTracks().forEach(track => track.stop());
+    stopLevelMeter();
+    stopVoiceDetection();
+    [...capturedStreams, ...trackRecorders.map(({ stream }) => stream)].forEach(stream => {
+      stream.getTracks().forEach(track => track.stop());
+    });
+    capturedStreams = [];
+    if (mixContext) {
+      mixContext.close().catch(error => console.warn('Error closing mixing audio context:', error));
+      mixContext = null;
     }
   }
 
   function stopRecording(): void {
     try {
-      if (!mediaRecorder) {
+      if (trackRecorders.length === 0) {
         updateStatus('No active recording to stop', true);
         return;
       }
       
-      if (mediaRecorder.state === 'inactive') {
+      if (trackRecorders.every(({ recorder }) => !recorder || recorder.state === 'inactive')) {
         updateStatus('Recording already stopped');
         return;
       }
       
       updateStatus('Stopping recording and finalizing audio...');
       
-      console.log(`Stopping recording. Current state: ${mediaRecorder.state}`);
-      console.log(`Current audio chunks before stop: ${audioChunks.length}`);
-      
-      if (intervalId !== null) {
-        console.log("Clearing processing interval");
-        clearInterval(intervalId);
-        intervalId = null;
+      if (segmentIntervalId !== null) {
+        console.log("Clearing segment interval");
+        clearInterval(segmentIntervalId);
+        segmentIntervalId = null;
       }
       
-      try {
-        mediaRecorder.stop();
-        console.log("Called mediaRecorder.stop()");
-      } catch (stopError) {
-        console.error('Error stopping recording:', stopError);
-        updateStatus(`Error stopping recording: ${stopError instanceof Error ? stopError.message : String(stopError)}`, true);
+      trackRecorders.forEach(({ sessionId, recorder, currentSegment }) => {
+        console.log(`Stopping recording session ${sessionId}. Current state: ${recorder ? recorder.state : 'not started'}`);
+        
+        if (currentSegment) {
+          currentSegment.isFinal = true;
+        }
         
-        if (audioChunks.length > 0) {
-          console.log(`Attempting to process ${audioChunks.length} chunks despite stop error`);
-          processAudioChunks();
+        try {
+          recorder?.stop();
+          console.log("Called mediaRecorder.stop()");
+        } catch (stopError) {
+          console.error('Error stopping recording:', stopError);
+          updateStatus(`Error stopping recording: ${stopError instanceof Error ? stopError.message : String(stopError)}`, true);
         }
+      });
+      
+      // Freeze the recorded time so segments finishing after this point report the right duration
+      if (pausedAt !== null) {
+        pausedTotalMs += Date.now() - pausedAt;
+        pausedAt = null;
       }
+      if (trimmedAt !== null) {
+        trimmedTotalMs += Date.now() - trimmedAt;
+        trimmedAt = null;
+      }
+      recordingStoppedAt = Date.now();
       
       try {
         stopMediaTracks();
       } catch (trackError) {
         console.error('Error stopping media tracks:', trackError);
       }
+      trackRecorders = [];
       
       startButton.disabled = false;
       stopButton.disabled = true;
+      pauseButton.disabled = true;
+      pauseButton.textContent = 'Pause';
+      setRecordingSettingsDisabled(false);
       
       hideRecordingIndicator();
       
@@ -283,90 +1002,76 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   }
 
-  function processAudioChunks(): void {
-    try {
-      if (audioChunks.length === 0) {
-        console.log('No audio chunks to process');
-        return;
-      }
-      
-      const totalChunkSize = audioChunks.reduce((total, chunk) => total + chunk.size, 0);
-      console.log(`Processing ${audioChunks.length} audio chunks (Total size: ${formatFileSize(totalChunkSize)})`);
-      
-      if (totalChunkSize < 100) {
-        console.warn(`Audio data too small (${totalChunkSize} bytes), might be empty recording`);
+  async function finishSegment(segment: AudioSegmentInfo, capturedBytes: number): Promise<void> {
+    if (capturedBytes > 0 && capturedBytes < 100) {
+      console.warn(`Segment ${segment.index} is only ${capturedBytes} bytes, might be empty`);
+    }
+    
+    // The main process reads the segment back from its spool file and drops it if nothing was captured
+    const result = await window.api.uploadSegment(segment);
+    if (!result.ok) {
+      console.error(`Error queueing segment ${segment.index}:`, result.error);
+      updateStatus(`Error processing audio: ${result.error.message}`, true);
+      hideUploadIndicator();
+      return;
+    }
+    
+    const queued = result.value;
+    if (!queued) {
+      console.log(`No audio data captured for segment ${segment.index}`);
+      if (segment.isFinal) {
+        updateStatus('No audio data captured', true);
       }
-      
-      updateStatus(`Processing ${audioChunks.length} audio chunks...`);
-      
-      const chunksToProcess = [...audioChunks];
-      
-      let audioBlob: Blob;
-      try {
-        audioBlob = new Blob(chunksToProcess, { type: 'audio/webm' });
-        
-        console.log(`Created audio blob of size: ${formatFileSize(audioBlob.size)}`);
-        
-        if (audioBlob.size === 0) {
-          throw new Error('Created audio blob is empty');
-        }
-        
-        updateStatus(`Audio captured: ${formatFileSize(audioBlob.size)}`);
-      } catch (blobError) {
-        console.error("Error creating audio blob:", blobError);
-        throw new Error(`Failed to create audio blob: ${blobError instanceof Error ? blobError.message : String(blobError)}`);
-      }
-      
-      if (!mediaRecorder || mediaRecorder.state === 'inactive') {
-        console.log("Recording stopped, clearing processed chunks");
-        audioChunks = [];
-      } else {
-        console.log("Recording still active, keeping chunks for continuous recording");
-      }
-      
-      updateStatus(`Preparing to upload ${formatFileSize(audioBlob.size)}...`);
-      
-      const reader = new FileReader();
-      
-      reader.onerror = (event) => {
-        console.error('FileReader error:', event);
-        updateStatus('Error reading audio data', true);
-      };
-      
-      reader.onload = () => {
-        try {
-          const arrayBuffer = reader.result;
-          if (!arrayBuffer) {
-            throw new Error('Failed to read audio data');
-          }
-          
-          const audioData = new Uint8Array(arrayBuffer as ArrayBuffer);
-          console.log(`Sending audio data of size: ${formatFileSize(audioData.length)} to main process for R2 upload`);
-          
-          if (audioData.length === 0) {
-            throw new Error('Audio data is empty after conversion');
-          }
-          
-          const displaySize = formatFileSize(audioData.length);
-          showUploadIndicator(`Initiating upload to R2: ${displaySize}`);
-          
-          setTimeout(() => {
-            window.api.send('audio-data', audioData);
-            console.log('Audio data sent to main process');
-          }, 100);
-        } catch (sendError) {
-          console.error('Error sending audio data:', sendError);
-          updateStatus(`Error uploading audio: ${sendError instanceof Error ? sendError.message : String(sendError)}`, true);
-          hideUploadIndicator();
-        }
-      };
-      
-      reader.readAsArrayBuffer(audioBlob);
-    } catch (err) {
-      console.error('Error processing audio chunks:', err);
-      updateStatus(`Error processing audio: ${err instanceof Error ? err.message : String(err)}`, true);
-      hideUploadIndicator();
+      return;
+    }
+    
+    console.log(`Segment ${segment.index} of session ${segment.sessionId} queued as ${queued.key}`);
+    if (queued.missingConfig.length > 0) {
+      updateStatus(`Missing storage configuration: ${queued.missingConfig.join(', ')}. Recording saved to the local upload queue until it is entered in Settings`, true);
+      return;
+    }
+    
+    const trackLabel = segment.track ? ` (${describeTrack(segment.track).toLowerCase()})` : '';
+    showUploadIndicator(`Uploading segment ${segment.index + 1}${trackLabel}: ${formatFileSize(queued.size)}`);
+    updateStatus(`Queued segment ${segment.index + 1} for upload (${formatFileSize(queued.size)})...`);
+  }
+
+  function describeTranscriptionError(error: IpcError): string {
+    switch (error.code) {
+      case 'auth':
+        return "The transcription API key is missing or invalid. Please set it up in the Cloudflare worker configuration.";
+      case 'network':
+        return "Network error connecting to the transcription service. Check your internet connection.";
+      case 'not-found':
+        return "The audio file could not be found on the storage server.";
+      case 'timeout':
+        return "The transcription request timed out. The audio might be too large or the service is currently overloaded.";
+      default:
+        return error.message || 'Unknown error';
+    }
+  }
+
+  function renderUnfinishedRecordings(recordings: UnfinishedRecording[]): void {
+    recoveryNotice.classList.toggle('hidden', recordings.length === 0);
+    if (recordings.length === 0) {
+      return;
+    }
+    
+    const totalSize = recordings.reduce((total, recording) => total + recording.size, 0);
+    const earliest = recordings.map(recording => recording.startedAt).sort()[0];
+    recoveryMessage.textContent = recordings.length === 1
+      ? `A recording from ${formatTimestamp(earliest)} (${formatFileSize(totalSize)}) was not finished.`
+      : `${recordings.length} recordings since ${formatTimestamp(earliest)} (${formatFileSize(totalSize)}) were not finished.`;
+  }
+
+  async function loadUnfinishedRecordings(): Promise<void> {
+    const result = await window.api.getUnfinishedRecordings();
+    if (!result.ok) {
+      console.error('Error listing unfinished recordings:', result.error);
+      return;
     }
+    
+    renderUnfinishedRecordings(result.value);
   }
 
   function formatFileSize(bytes: number): string {
@@ -388,11 +1093,92 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   }
 
+  function formatDuration(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+  }
+
+  function getSessionName(session: RecordingSession): string {
+    // Both tracks of a dual-track recording are named after the shared recording id so they read as a pair
+    if (session.track && session.recordingId) {
+      return `Recording ${session.recordingId.substring(0, 8)} • ${describeTrack(session.track)} track`;
+    }
+    return `Recording session ${session.id.substring(0, 8)}`;
+  }
+
+  function describeSessionStatus(session: RecordingSession): string {
+    switch (session.status) {
+      case 'recording':
+        return 'Uploading segments';
+      case 'uploaded':
+        return 'Segments uploaded';
+      case 'concatenating':
+        return 'Joining segments';
+      case 'ready':
+        return 'Ready';
+      case 'failed':
+        return `Join failed${session.error ? `: ${session.error}` : ''}`;
+    }
+  }
+
   function getFilenameFromKey(key: string): string {
     return key.split('/').pop() || key;
   }
 
-  function renderAudioHistory(audioFiles: AudioFile[]): void {
+  async function requestHistory(cursor?: string): Promise<void> {
+    const query: AudioHistoryQuery = {
+      cursor,
+      pageSize: HISTORY_PAGE_SIZE,
+      from: historyFromInput.value ? new Date(`${historyFromInput.value}T00:00:00`).toISOString() : undefined,
+      to: historyToInput.value ? new Date(`${historyToInput.value}T23:59:59.999`).toISOString() : undefined,
+      hasTranscription: historyTranscribedOnly.checked ? true : undefined,
+    };
+    
+    isLoadingHistory = true;
+    const result = await window.api.getAudioHistory(query);
+    if (result.ok) {
+      applyHistoryPage(result.value);
+      return;
+    }
+    
+    isLoadingHistory = false;
+    console.error('Error loading audio history:', result.error);
+    updateStatus(`Failed to load audio history: ${result.error.message}`, true);
+    if (!cursor) {
+      renderAudioHistory([]);
+    }
+  }
+
+  function applyHistoryPage(page: AudioHistoryPage): void {
+    const isNextPage = Boolean(page.query && page.query.cursor);
+    if (isNextPage && page.query.cursor !== historyCursor) {
+      console.log('Ignoring stale history page');
+      return;
+    }
+    
+    isLoadingHistory = false;
+    historyCursor = page.nextCursor;
+    renderAudioHistory(page.items, isNextPage);
+    
+    if (pendingSearchMatch) {
+      openSearchMatch(pendingSearchMatch);
+    } else if (historyCursor && historySentinel.getBoundingClientRect().top < window.innerHeight) {
+      requestHistory(historyCursor);
+    }
+  }
+
+  function renderAudioHistory(audioFiles: AudioFile[], append = false): void {
+    if (append) {
+      audioFiles.forEach(file => audioHistoryContainer.appendChild(renderAudioFile(file)));
+      return;
+    }
+    
+    revokePlaybackObjectUrls();
     audioHistoryContainer.innerHTML = '';
     
     const emptyHistoryClone = emptyHistoryMessage.cloneNode(true) as HTMLElement;
@@ -408,122 +1194,609 @@ document.addEventListener('DOMContentLoaded', () => {
       return;
     }
     
-    audioFiles.forEach(file => {
-      const audioFile = document.createElement('div');
-      audioFile.className = 'audio-file';
-      
-      const fileInfo = document.createElement('div');
-      fileInfo.className = 'audio-file-info';
-      
-      const fileDetails = document.createElement('div');
-      fileDetails.className = 'audio-file-details';
-      
-      const fileName = document.createElement('div');
-      fileName.className = 'audio-file-name';
-      fileName.textContent = getFilenameFromKey(file.key);
-      fileDetails.appendChild(fileName);
+    audioFiles.forEach(file => audioHistoryContainer.appendChild(renderAudioFile(file)));
+  }
+
+  function renderAudioFile(file: AudioFile): HTMLDivElement {
+    const audioFile = document.createElement('div');
+    audioFile.className = 'audio-file';
+    
+    const fileInfo = document.createElement('div');
+    fileInfo.className = 'audio-file-info';
+    
+    const fileDetails = document.createElement('div');
+    fileDetails.className = 'audio-file-details';
+    
+    const session = file.session;
+    
+    const fileName = document.createElement('div');
+    fileName.className = 'audio-file-name';
+    fileName.textContent = file.title || (session ? getSessionName(session) : getFilenameFromKey(file.key));
+    fileDetails.appendChild(fileName);
+    
+    const fileMeta = document.createElement('div');
+    fileMeta.className = 'audio-file-meta';
+    if (session) {
+      const segmentCount = `${session.segments.length} segment${session.segments.length === 1 ? '' : 's'}`;
+      const trimmed = session.trimmedSilenceMs ? ` • Silence trimmed: ${formatDuration(session.trimmedSilenceMs)}` : '';
+      fileMeta.textContent = `Recorded: ${formatTimestamp(file.timestamp)} • Duration: ${formatDuration(session.totalDurationMs)}${trimmed} • ${segmentCount} • Size: ${formatFileSize(file.size)} • ${describeSessionStatus(session)}`;
+    } else {
+      const duration = file.durationMs !== undefined ? ` • Duration: ${formatDuration(file.durationMs)}` : '';
+      fileMeta.textContent = `Recorded: ${formatTimestamp(file.timestamp)}${duration} • Size: ${formatFileSize(file.size)}`;
+    }
+    fileDetails.appendChild(fileMeta);
+    
+    if (file.tags && file.tags.length > 0) {
+      const fileTags = document.createElement('div');
+      fileTags.className = 'audio-file-tags';
+      file.tags.forEach(tag => {
+        const tagElement = document.createElement('span');
+        tagElement.className = 'tag';
+        tagElement.textContent = tag;
+        fileTags.appendChild(tagElement);
+      });
+      fileDetails.appendChild(fileTags);
+    }
+    
+    fileInfo.appendChild(fileDetails);
+    
+    const buttonsContainer = document.createElement('div');
+    buttonsContainer.className = 'audio-file-buttons';
+    
+    const transcribeButton = document.createElement('button');
+    transcribeButton.className = 'transcribe-button';
+    
+    transcribeButton.setAttribute('data-key', file.key);
+    
+    const transcriptionContainer = document.createElement('div');
+    transcriptionContainer.className = 'transcription-container';
+    transcriptionContainer.style.display = 'none';
+    
+    let transcriptionText: HTMLDivElement | null = null;
+    
+    if (file.transcription) {
+      transcribeButton.textContent = 'Show Transcription';
+      transcribeButton.title = 'Toggle transcription display';
       
-      const fileMeta = document.createElement('div');
-      fileMeta.className = 'audio-file-meta';
-      fileMeta.textContent = `Recorded: ${formatTimestamp(file.timestamp)} • Size: ${formatFileSize(file.size)}`;
-      fileDetails.appendChild(fileMeta);
+      if (file.transcript && file.transcript.speakers.length > 0) {
+        transcriptionContainer.appendChild(renderSpeakerEditor(file.key, file.transcript.speakers));
+      }
       
-      fileInfo.appendChild(fileDetails);
+      transcriptionText = renderTranscript(file.transcript, file.transcription);
+      transcriptionContainer.appendChild(transcriptionText);
       
-      const buttonsContainer = document.createElement('div');
-      buttonsContainer.className = 'audio-file-buttons';
+      transcribeButton.addEventListener('click', () => {
+        const isVisible = transcriptionContainer.style.display !== 'none';
+        transcriptionContainer.style.display = isVisible ? 'none' : 'block';
+        transcribeButton.textContent = isVisible ? 'Show Transcription' : 'Hide Transcription';
+      });
+    } else {
+      transcribeButton.textContent = 'Transcribe';
+      transcribeButton.title = 'Generate transcription for this audio';
       
-      const transcribeButton = document.createElement('button');
-      transcribeButton.className = 'transcribe-button';
+      const progressIndicator = document.createElement('div');
+      progressIndicator.className = 'transcription-progress';
       
-      transcribeButton.setAttribute('data-key', file.key);
+      const progressText = document.createElement('div');
+      progressText.className = 'progress-text';
+      progressText.textContent = 'Click the Transcribe button to generate a transcription';
+      progressIndicator.appendChild(progressText);
       
-      const transcriptionContainer = document.createElement('div');
-      transcriptionContainer.className = 'transcription-container';
-      transcriptionContainer.style.display = 'none';
+      transcriptionContainer.appendChild(progressIndicator);
       
-      if (file.transcription) {
-        transcribeButton.textContent = 'Show Transcription';
-        transcribeButton.title = 'Toggle transcription display';
-        
-        const transcriptionText = document.createElement('div');
-        transcriptionText.className = 'transcription-text';
-        transcriptionText.textContent = file.transcription;
-        transcriptionContainer.appendChild(transcriptionText);
-        
-        transcribeButton.addEventListener('click', () => {
-          const isVisible = transcriptionContainer.style.display !== 'none';
-          transcriptionContainer.style.display = isVisible ? 'none' : 'block';
-          transcribeButton.textContent = isVisible ? 'Show Transcription' : 'Hide Transcription';
-        });
-      } else {
-        transcribeButton.textContent = 'Transcribe';
-        transcribeButton.title = 'Generate transcription for this audio';
-        
-        const progressIndicator = document.createElement('div');
-        progressIndicator.className = 'transcription-progress';
-        
-        const progressText = document.createElement('div');
-        progressText.className = 'progress-text';
-        progressText.textContent = 'Click the Transcribe button to generate a transcription';
-        progressIndicator.appendChild(progressText);
-        
-        transcriptionContainer.appendChild(progressIndicator);
-        
-        transcribeButton.addEventListener('click', async () => {
-          try {
-            console.log(`Initiating transcription for file: ${file.key}`);
-            transcribeButton.disabled = true;
-            transcribeButton.textContent = 'Transcribing...';
-            progressText.textContent = 'Transcription in progress...';
-            transcriptionContainer.style.display = 'block';
-            
-            console.log(`Requesting transcription for file: ${getFilenameFromKey(file.key)}, size: ${formatFileSize(file.size)}`);
-            
-            updateStatus(`Transcribing ${getFilenameFromKey(file.key)}...`);
-            
-            window.api.send('transcribe-audio', file.key);
-            console.log('Transcription request sent to main process');
-          } catch (error) {
-            console.error('Error initiating transcription:', error);
-            updateStatus('Failed to initiate transcription', true);
+      transcribeButton.addEventListener('click', async () => {
+        try {
+          console.log(`Initiating transcription for file: ${file.key}`);
+          transcribeButton.disabled = true;
+          transcribeButton.textContent = 'Transcribing...';
+          progressText.textContent = 'Transcription in progress...';
+          transcriptionContainer.style.display = 'block';
+          
+          console.log(`Requesting transcription for file: ${getFilenameFromKey(file.key)}, size: ${formatFileSize(file.size)}`);
+          
+          updateStatus(`Transcribing ${getFilenameFromKey(file.key)}...`);
+          
+          const result = await window.api.transcribeAudio(file.key);
+          if (!result.ok) {
+            console.error(`Transcription failed for ${file.key}:`, result.error);
+            updateStatus(`Transcription failed: ${describeTranscriptionError(result.error)}`, true);
             transcribeButton.disabled = false;
             transcribeButton.textContent = 'Transcribe';
             progressText.textContent = 'Transcription failed. Please try again.';
+            return;
           }
+          
+          console.log(`Transcription job ${result.value.jobId} completed for ${file.key}`);
+          playNotificationSound();
+          updateStatus(`Transcription complete: ${result.value.wordCount} words`);
+          requestHistory();
+        } catch (error) {
+          console.error('Error initiating transcription:', error);
+          updateStatus('Failed to initiate transcription', true);
+          transcribeButton.disabled = false;
+          transcribeButton.textContent = 'Transcribe';
+          progressText.textContent = 'Transcription failed. Please try again.';
+        }
+      });
+    }
+    
+    if (session && !session.assetKey) {
+      transcribeButton.disabled = true;
+      transcribeButton.title = 'Available once the session segments have been joined';
+      
+      if (session.status === 'uploaded' || session.status === 'failed') {
+        const joinButton = document.createElement('button');
+        joinButton.className = 'join-button';
+        joinButton.textContent = 'Join Segments';
+        joinButton.title = 'Join the session segments into a single recording';
+        joinButton.addEventListener('click', () => {
+          joinButton.disabled = true;
+          updateStatus(`Joining ${session.segments.length} segments...`);
+          window.api.send('concatenate-session', session.id);
         });
+        buttonsContainer.appendChild(joinButton);
+      }
+    }
+    
+    buttonsContainer.appendChild(transcribeButton);
+    
+    const metadataEditor = renderMetadataEditor(file);
+    const detailsButton = document.createElement('button');
+    detailsButton.className = 'details-button';
+    detailsButton.textContent = 'Details';
+    detailsButton.title = 'Edit the title and tags of this recording';
+    detailsButton.addEventListener('click', () => {
+      metadataEditor.classList.toggle('hidden');
+    });
+    buttonsContainer.appendChild(detailsButton);
+    
+    if (file.transcription) {
+      buttonsContainer.appendChild(renderExportControl(file.key));
+    }
+    
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'delete-button';
+    deleteButton.textContent = 'Delete';
+    deleteButton.title = session ? 'Delete all audio in this session' : 'Delete audio';
+    deleteButton.addEventListener('click', async () => {
+      const label = session ? fileName.textContent : getFilenameFromKey(file.key);
+      if (!confirm(`Are you sure you want to delete "${label}"?`)) {
+        return;
       }
       
-      buttonsContainer.appendChild(transcribeButton);
+      updateStatus(`Deleting ${label}...`);
+      deleteButton.disabled = true;
+      const result = session ? await window.api.deleteSession(session.id) : await window.api.deleteAudio(file.key);
+      if (!result.ok) {
+        console.error(`Error deleting ${label}:`, result.error);
+        updateStatus(`Error deleting ${label}: ${result.error.message}`, true);
+        deleteButton.disabled = false;
+        return;
+      }
       
-      const deleteButton = document.createElement('button');
-      deleteButton.className = 'delete-button';
-      deleteButton.textContent = 'Delete';
-      deleteButton.title = 'Delete audio';
-      deleteButton.addEventListener('click', () => {
-        if (confirm(`Are you sure you want to delete "${getFilenameFromKey(file.key)}"?`)) {
-          updateStatus(`Deleting ${getFilenameFromKey(file.key)}...`);
-          deleteButton.disabled = true;
-          window.api.send('delete-audio', file.key);
-        }
+      updateStatus(`Deleted ${label}`);
+      requestHistory();
+    });
+    buttonsContainer.appendChild(deleteButton);
+    
+    fileInfo.appendChild(buttonsContainer);
+    
+    audioFile.appendChild(fileInfo);
+    audioFile.appendChild(metadataEditor);
+    
+    if (!session || session.assetKey || session.segmentKeys.length > 0) {
+      const playButton = document.createElement('button');
+      playButton.className = 'play-button';
+      playButton.textContent = 'Play';
+      playButton.title = 'Load and play this recording';
+      playButton.setAttribute('data-key', file.key);
+      playButton.addEventListener('click', () => playFrom(audioFile, file.key));
+      audioFile.appendChild(playButton);
+      
+      if (transcriptionText) {
+        attachTranscriptPlayback(audioFile, file.key, transcriptionText);
+      }
+    }
+    
+    audioFile.appendChild(transcriptionContainer);
+    
+    return audioFile;
+  }
+
+  function renderUploadQueueStatus(stats: UploadQueueStats): void {
+    const pending = stats.queued + stats.uploading + stats.failed;
+    uploadQueueContainer.classList.toggle('hidden', pending === 0);
+    uploadQueueContainer.classList.toggle('error', stats.failed > 0);
+    
+    let summary = `Upload queue: ${stats.queued} queued • ${stats.uploading} uploading • ${stats.failed} failed`;
+    if (stats.failed > 0 && stats.nextRetryAt) {
+      summary += ` • next retry at ${new Date(stats.nextRetryAt).toLocaleTimeString()}`;
+    }
+    uploadQueueSummary.textContent = summary;
+    
+    retryUploadsButton.classList.toggle('hidden', stats.failed === 0);
+  }
+
+  function renderTranscript(transcript: TranscriptDocument | undefined, text: string): HTMLDivElement {
+    const transcriptionText = document.createElement('div');
+    transcriptionText.className = 'transcription-text';
+    
+    if (!transcript || transcript.segments.length === 0) {
+      transcriptionText.textContent = text;
+      return transcriptionText;
+    }
+    
+    const speakerNames = new Map(transcript.speakers.map(speaker => [speaker.id, speaker.name]));
+    
+    transcript.segments.forEach(segment => {
+      const segmentElement = document.createElement('div');
+      segmentElement.className = 'transcript-segment';
+      segmentElement.dataset.start = String(segment.start);
+      segmentElement.dataset.end = String(segment.end);
+      segmentElement.title = 'Play from here';
+      
+      const timeElement = document.createElement('span');
+      timeElement.className = 'transcript-time';
+      timeElement.textContent = formatDuration(segment.start * 1000);
+      segmentElement.appendChild(timeElement);
+      
+      if (segment.speaker) {
+        const speakerElement = document.createElement('span');
+        speakerElement.className = 'transcript-speaker';
+        speakerElement.textContent = speakerNames.get(segment.speaker) || segment.speaker;
+        segmentElement.appendChild(speakerElement);
+      }
+      
+      const textElement = document.createElement('span');
+      textElement.className = 'transcript-segment-text';
+      textElement.textContent = segment.text;
+      segmentElement.appendChild(textElement);
+      
+      transcriptionText.appendChild(segmentElement);
+    });
+    
+    return transcriptionText;
+  }
+
+  function renderMetadataEditor(file: AudioFile): HTMLDivElement {
+    const editor = document.createElement('div');
+    editor.className = 'metadata-editor hidden';
+    
+    const titleInput = document.createElement('input');
+    titleInput.type = 'text';
+    titleInput.placeholder = 'Title';
+    titleInput.value = file.title || '';
+    editor.appendChild(titleInput);
+    
+    const tagsInput = document.createElement('input');
+    tagsInput.type = 'text';
+    tagsInput.placeholder = 'Tags, separated by commas';
+    tagsInput.value = (file.tags || []).join(', ');
+    editor.appendChild(tagsInput);
+    
+    const saveButton = document.createElement('button');
+    saveButton.className = 'transcribe-button';
+    saveButton.textContent = 'Save';
+    saveButton.addEventListener('click', async () => {
+      saveButton.disabled = true;
+      updateStatus('Saving recording details...');
+      const result = await window.api.updateRecordingMetadata({
+        key: file.key,
+        title: titleInput.value,
+        tags: tagsInput.value.split(','),
       });
-      buttonsContainer.appendChild(deleteButton);
+      if (!result.ok) {
+        console.error('Error saving recording details:', result.error);
+        updateStatus(`Error saving recording details: ${result.error.message}`, true);
+        saveButton.disabled = false;
+        return;
+      }
+      
+      updateStatus('Recording details saved');
+      requestHistory();
+    });
+    editor.appendChild(saveButton);
+    
+    return editor;
+  }
+
+  function renderSpeakerEditor(key: string, speakers: TranscriptSpeaker[]): HTMLDivElement {
+    const editor = document.createElement('div');
+    editor.className = 'speaker-editor';
+    
+    const inputs = speakers.map(speaker => {
+      const label = document.createElement('label');
+      label.className = 'speaker-name';
+      label.textContent = `${speaker.id.replace('speaker_', 'Speaker ')}: `;
+      
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.value = speaker.name;
+      input.dataset.speakerId = speaker.id;
+      label.appendChild(input);
+      
+      editor.appendChild(label);
+      return input;
+    });
+    
+    const saveButton = document.createElement('button');
+    saveButton.className = 'transcribe-button';
+    saveButton.textContent = 'Save Names';
+    saveButton.addEventListener('click', async () => {
+      const names: Record<string, string> = {};
+      inputs.forEach(input => {
+        names[input.dataset.speakerId as string] = input.value;
+      });
+      
+      saveButton.disabled = true;
+      updateStatus('Saving speaker names...');
+      const result = await window.api.renameSpeakers({ key, speakers: names });
+      if (!result.ok) {
+        console.error('Error saving speaker names:', result.error);
+        updateStatus(`Error saving speaker names: ${result.error.message}`, true);
+        saveButton.disabled = false;
+        return;
+      }
+      
+      updateStatus('Speaker names saved successfully');
+      requestHistory();
+    });
+    editor.appendChild(saveButton);
+    
+    return editor;
+  }
+
+  function renderExportControl(key: string): HTMLDivElement {
+    const exportControl = document.createElement('div');
+    exportControl.className = 'export-control';
+    
+    const formatSelect = document.createElement('select');
+    formatSelect.className = 'export-format';
+    formatSelect.title = 'Transcript export format';
+    TRANSCRIPT_EXPORT_OPTIONS.forEach(option => {
+      const optionElement = document.createElement('option');
+      optionElement.value = option.value;
+      optionElement.textContent = option.label;
+      formatSelect.appendChild(optionElement);
+    });
+    exportControl.appendChild(formatSelect);
+    
+    const exportButton = document.createElement('button');
+    exportButton.className = 'export-button';
+    exportButton.textContent = 'Export';
+    exportButton.title = 'Save the transcription to a file';
+    exportButton.addEventListener('click', async () => {
+      updateStatus(`Exporting transcript as ${formatSelect.value.toUpperCase()}...`);
+      const result = await window.api.exportTranscript({ key, format: formatSelect.value });
+      if (!result.ok) {
+        console.error('Error exporting transcript:', result.error);
+        updateStatus(`Error exporting transcript: ${result.error.message}`, true);
+        return;
+      }
+      
+      updateStatus(result.value ? `Transcript exported successfully: ${result.value}` : 'Transcript export cancelled');
+    });
+    exportControl.appendChild(exportButton);
+    
+    return exportControl;
+  }
+
+  function renderSearchResults(results: TranscriptSearchResults): void {
+    transcriptSearchResults.innerHTML = '';
+    transcriptSearchResults.classList.remove('hidden');
+    
+    const summary = document.createElement('div');
+    summary.className = 'search-summary';
+    if (results.matches.length === 0) {
+      summary.textContent = `No transcriptions match "${results.query}"`;
+    } else {
+      const count = `${results.matches.length}${results.truncated ? '+' : ''}`;
+      summary.textContent = `${count} match${results.matches.length === 1 ? '' : 'es'} for "${results.query}"`;
+    }
+    transcriptSearchResults.appendChild(summary);
+    
+    results.matches.forEach(match => {
+      const resultElement = document.createElement('div');
+      resultElement.className = 'search-result';
+      resultElement.title = 'Open recording at this point';
       
-      fileInfo.appendChild(buttonsContainer);
+      const resultHeader = document.createElement('div');
+      resultHeader.className = 'search-result-header';
+      const recorded = match.recordedAt ? ` • ${formatTimestamp(match.recordedAt)}` : '';
+      resultHeader.textContent = `${getFilenameFromKey(match.key)}${recorded} • ${formatDuration(match.start * 1000)}`;
+      resultElement.appendChild(resultHeader);
       
-      audioFile.appendChild(fileInfo);
+      const resultText = document.createElement('div');
+      resultText.className = 'search-result-text';
+      if (match.speaker) {
+        const speakerElement = document.createElement('span');
+        speakerElement.className = 'transcript-speaker';
+        appendHighlightedText(speakerElement, `${match.speaker}:`, results.terms);
+        resultText.appendChild(speakerElement);
+        resultText.appendChild(document.createTextNode(' '));
+      }
+      appendHighlightedText(resultText, match.text, results.terms);
+      resultElement.appendChild(resultText);
       
-      if (file.url) {
-        const audioElement = document.createElement('audio');
-        audioElement.className = 'audio-player';
-        audioElement.controls = true;
-        audioElement.src = file.url;
-        audioFile.appendChild(audioElement);
+      resultElement.addEventListener('click', () => openSearchMatch(match));
+      transcriptSearchResults.appendChild(resultElement);
+    });
+  }
+
+  function appendHighlightedText(container: HTMLElement, text: string, terms: string[]): void {
+    if (terms.length === 0) {
+      container.appendChild(document.createTextNode(text));
+      return;
+    }
+    
+    const pattern = new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+    text.split(pattern).forEach((part, index) => {
+      if (!part) {
+        return;
       }
       
-      audioFile.appendChild(transcriptionContainer);
+      if (index % 2 === 1) {
+        const mark = document.createElement('mark');
+        mark.textContent = part;
+        container.appendChild(mark);
+      } else {
+        container.appendChild(document.createTextNode(part));
+      }
+    });
+  }
+
+  function openSearchMatch(match: TranscriptSearchMatch): void {
+    const audioFile = audioHistoryContainer.querySelector(`.audio-file:has([data-key="${match.key}"])`) as HTMLElement | null;
+    if (!audioFile) {
+      if (historyCursor) {
+        pendingSearchMatch = match;
+        updateStatus(`Loading more history to find ${getFilenameFromKey(match.key)}...`);
+        requestHistory(historyCursor);
+      } else {
+        pendingSearchMatch = null;
+        updateStatus(`${getFilenameFromKey(match.key)} is not in the history (check the history filters)`, true);
+      }
+      return;
+    }
+    
+    pendingSearchMatch = null;
+    
+    const transcriptionContainer = audioFile.querySelector('.transcription-container') as HTMLElement | null;
+    const transcribeButton = audioFile.querySelector('.transcribe-button') as HTMLButtonElement | null;
+    if (transcriptionContainer && transcriptionContainer.style.display === 'none') {
+      transcriptionContainer.style.display = 'block';
+      if (transcribeButton) {
+        transcribeButton.textContent = 'Hide Transcription';
+      }
+    }
+    
+    audioFile.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    
+    if (!audioFile.querySelector('.play-button, .audio-player')) {
+      updateStatus('This recording has no playable audio yet', true);
+      return;
+    }
+    
+    playFrom(audioFile, match.key, match.start);
+  }
+
+  function playFrom(audioFile: HTMLElement, key: string, start?: number): void {
+    loadPlayer(audioFile, key).then(audioElement => {
+      if (!audioElement) {
+        return;
+      }
       
-      audioHistoryContainer.appendChild(audioFile);
+      if (start !== undefined) {
+        audioElement.currentTime = start;
+      }
+      audioElement.play().catch(error => {
+        console.warn('Could not start playback:', error);
+      });
+    });
+  }
+
+  function loadPlayer(audioFile: HTMLElement, key: string): Promise<HTMLAudioElement | null> {
+    const existingPlayer = audioFile.querySelector('.audio-player') as HTMLAudioElement | null;
+    if (existingPlayer) {
+      return Promise.resolve(existingPlayer);
+    }
+    
+    const pending = pendingPlayback.get(key);
+    if (pending) {
+      return pending;
+    }
+    
+    const playButton = audioFile.querySelector('.play-button') as HTMLButtonElement | null;
+    if (playButton) {
+      playButton.disabled = true;
+      playButton.textContent = 'Loading...';
+    }
+    
+    const loading = window.api.getPlaybackUrl(key)
+      .then(result => attachPlayer(key, result))
+      .finally(() => pendingPlayback.delete(key));
+    pendingPlayback.set(key, loading);
+    return loading;
+  }
+
+  function attachPlayer(key: string, result: IpcResult<PlaybackSource>): HTMLAudioElement | null {
+    const audioFile = audioHistoryContainer.querySelector(`.audio-file:has([data-key="${key}"])`) as HTMLElement | null;
+    const playButton = audioFile ? audioFile.querySelector('.play-button') as HTMLButtonElement | null : null;
+    
+    if (!result.ok || !audioFile) {
+      if (!result.ok) {
+        console.error('Error loading recording:', result.error);
+        updateStatus(`Could not load recording: ${result.error.message}`, true);
+      }
+      if (playButton) {
+        playButton.disabled = false;
+        playButton.textContent = 'Play';
+      }
+      return null;
+    }
+    
+    const existingPlayer = audioFile.querySelector('.audio-player') as HTMLAudioElement | null;
+    if (existingPlayer) {
+      return existingPlayer;
+    }
+    
+    const source = result.value;
+    const audioElement = document.createElement('audio');
+    audioElement.className = 'audio-player';
+    audioElement.controls = true;
+    if ('url' in source) {
+      audioElement.src = source.url;
+    } else {
+      // Encrypted recordings arrive already decrypted instead of as a URL
+      audioElement.src = URL.createObjectURL(new Blob([source.data], { type: source.mimeType }));
+      playbackObjectUrls.set(audioElement, audioElement.src);
+    }
+    
+    if (playButton) {
+      playButton.replaceWith(audioElement);
+    } else {
+      audioFile.insertBefore(audioElement, audioFile.querySelector('.transcription-container'));
+    }
+    
+    const transcriptionText = audioFile.querySelector('.transcription-text') as HTMLElement | null;
+    if (transcriptionText) {
+      attachTranscriptHighlighting(audioElement, transcriptionText);
+    }
+    
+    return audioElement;
+  }
+
+  function revokePlaybackObjectUrls(): void {
+    playbackObjectUrls.forEach(url => URL.revokeObjectURL(url));
+    playbackObjectUrls.clear();
+  }
+
+  function attachTranscriptPlayback(audioFile: HTMLElement, key: string, transcriptionText: HTMLElement): void {
+    transcriptionText.querySelectorAll<HTMLElement>('.transcript-segment').forEach(segmentElement => {
+      segmentElement.addEventListener('click', () => {
+        playFrom(audioFile, key, Number(segmentElement.dataset.start));
+      });
+    });
+  }
+
+  function attachTranscriptHighlighting(audioElement: HTMLAudioElement, transcriptionText: HTMLElement): void {
+    const segmentElements = Array.from(transcriptionText.querySelectorAll<HTMLElement>('.transcript-segment'));
+    if (segmentElements.length === 0) {
+      return;
+    }
+    
+    audioElement.addEventListener('timeupdate', () => {
+      const currentTime = audioElement.currentTime;
+      
+      segmentElements.forEach(segmentElement => {
+        const isActive = currentTime >= Number(segmentElement.dataset.start) &&
+                         currentTime < Number(segmentElement.dataset.end);
+        
+        if (isActive && !segmentElement.classList.contains('active') && transcriptionText.offsetParent !== null) {
+          segmentElement.scrollIntoView({ block: 'nearest' });
+        }
+        segmentElement.classList.toggle('active', isActive);
+      });
     });
   }
 
@@ -548,6 +1821,25 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   }
 
+  populateFormatSelect();
+  populateDeviceSelect();
+  populateCaptureModeSelect();
+  loadVoiceActivitySettings();
+
+  [vadEnabledInput, vadThresholdInput, vadSilenceGapInput, vadAutoStopInput].forEach(input => {
+    input.addEventListener('change', saveVoiceActivitySettings);
+  });
+
+  deviceSelect.addEventListener('change', () => {
+    localStorage.setItem(AUDIO_DEVICE_STORAGE_KEY, deviceSelect.value);
+    console.log(`Audio input set to ${deviceSelect.value || 'the system default'}`);
+  });
+
+  navigator.mediaDevices.addEventListener('devicechange', () => {
+    console.log('Audio devices changed, refreshing input list');
+    populateDeviceSelect();
+  });
+
   startButton.addEventListener('click', () => {
     try {
       startRecording();
@@ -566,22 +1858,191 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   });
 
-  window.api.receive('upload-status', (message: string) => {
-    try {
-      const isError = message.toLowerCase().includes('error') || 
-                      message.toLowerCase().includes('failed') ||
-                      message.toLowerCase().includes('missing');
+  pauseButton.addEventListener('click', () => {
+    togglePause();
+  });
+
+  settingsButton.addEventListener('click', () => {
+    settingsPanel.classList.toggle('hidden');
+    if (!settingsPanel.classList.contains('hidden')) {
+      loadSettings();
+    }
+  });
+
+  settingsPanel.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    connectionTestResult.textContent = '';
+    const result = await window.api.saveSettings(readSettingsForm());
+    if (!result.ok) {
+      console.error('Error saving settings:', result.error);
+      updateStatus(`Error saving settings: ${result.error.message}`, true);
+      return;
+    }
+    
+    renderSettings(result.value);
+  });
+
+  getSettingsInput('storageBackend').addEventListener('change', () => {
+    connectionTestResult.textContent = '';
+    updateStorageFields();
+  });
+
+  migrateEnvButton.addEventListener('click', async () => {
+    const result = await window.api.migrateEnvCredentials();
+    if (!result.ok) {
+      console.error('Error migrating .env credentials:', result.error);
+      updateStatus(`Error moving credentials to encrypted storage: ${result.error.message}`, true);
+      return;
+    }
+    
+    renderSettings(result.value);
+    updateStatus('Credentials moved to encrypted storage. You can now remove R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY from .env');
+  });
+
+  dismissEnvMigrationButton.addEventListener('click', () => {
+    envMigrationNotice.classList.add('hidden');
+  });
+
+  recoverRecordingsButton.addEventListener('click', async () => {
+    recoveryNotice.classList.add('hidden');
+    updateStatus('Recovering unfinished recordings...');
+    const result = await window.api.recoverRecordings();
+    if (result.ok) {
+      updateStatus(`Recovered ${result.value} unfinished recording(s) and queued them for upload`);
+    } else {
+      console.error('Error recovering unfinished recordings:', result.error);
+      updateStatus(`Failed to recover unfinished recordings: ${result.error.message}`, true);
+    }
+    await loadUnfinishedRecordings();
+  });
+
+  discardRecordingsButton.addEventListener('click', async () => {
+    if (!confirm('Discard the unfinished recordings? They cannot be recovered afterwards.')) {
+      return;
+    }
+    
+    recoveryNotice.classList.add('hidden');
+    const result = await window.api.discardRecordings();
+    if (!result.ok) {
+      console.error('Error discarding unfinished recordings:', result.error);
+      updateStatus(`Failed to discard unfinished recordings: ${result.error.message}`, true);
+    }
+    await loadUnfinishedRecordings();
+  });
+
+  testConnectionButton.addEventListener('click', async () => {
+    testConnectionButton.disabled = true;
+    connectionTestResult.className = '';
+    connectionTestResult.textContent = 'Testing connection...';
+    const result = await window.api.testConnection(readSettingsForm());
+    testConnectionButton.disabled = false;
+    if (!result.ok) {
+      connectionTestResult.className = 'error';
+      connectionTestResult.textContent = result.error.message;
+      return;
+    }
+    
+    if (result.value.invalidSettings) {
+      renderSettings(result.value.invalidSettings);
+    }
+    connectionTestResult.className = result.value.success ? 'success' : 'error';
+    connectionTestResult.textContent = result.value.message;
+  });
+
+  saveShortcutsButton.addEventListener('click', async () => {
+    const shortcuts: RecordingShortcuts = {
+      start: shortcutInputs.start.value,
+      stop: shortcutInputs.stop.value,
+      pause: shortcutInputs.pause.value,
+    };
+    const result = await window.api.updateShortcuts(shortcuts);
+    if (!result.ok) {
+      console.error('Error saving shortcuts:', result.error);
+      updateStatus(`Error saving shortcuts: ${result.error.message}`, true);
+      return;
+    }
+    
+    renderShortcuts(result.value);
+    const failed = Object.keys(result.value.errors).length > 0;
+    updateStatus(failed ? 'Some shortcuts failed to register' : 'Shortcuts saved', failed);
+  });
+
+  retryUploadsButton.addEventListener('click', () => {
+    window.api.send('retry-uploads', undefined);
+  });
+
+  transcriptSearchInput.addEventListener('input', () => {
+    if (searchTimeoutId) {
+      clearTimeout(searchTimeoutId);
+    }
+    
+    const query = transcriptSearchInput.value.trim();
+    if (!query) {
+      transcriptSearchResults.classList.add('hidden');
+      transcriptSearchResults.innerHTML = '';
+      return;
+    }
+    
+    searchTimeoutId = window.setTimeout(async () => {
+      searchTimeoutId = null;
+      const result = await window.api.searchTranscripts(query);
+      if (!result.ok) {
+        console.error('Error searching transcripts:', result.error);
+        updateStatus(result.error.message, true);
+        return;
+      }
       
-      updateStatus(message, isError);
+      // A slower search for an earlier query must not replace newer results
+      if (result.value.query !== transcriptSearchInput.value.trim()) {
+        return;
+      }
+      renderSearchResults(result.value);
+    }, SEARCH_DEBOUNCE);
+  });
+
+  [historyFromInput, historyToInput, historyTranscribedOnly].forEach(filterInput => {
+    filterInput.addEventListener('change', () => {
+      historyCursor = undefined;
+      requestHistory();
+    });
+  });
+
+  new IntersectionObserver(entries => {
+    if (entries.some(entry => entry.isIntersecting) && historyCursor && !isLoadingHistory) {
+      requestHistory(historyCursor);
+    }
+  }).observe(historySentinel);
+
+  window.api.receive('upload-queue-status', (stats: UploadQueueStats) => {
+    try {
+      renderUploadQueueStatus(stats);
+    } catch (err) {
+      console.error('Error rendering upload queue status:', err);
+    }
+  });
+
+  window.api.receive('recording-command', (command: RecordingCommand) => {
+    console.log(`Received recording command: ${command}`);
+    if (command === 'start') {
+      if (trackRecorders.length === 0) {
+        startRecording();
+      }
+    } else if (command === 'stop') {
+      if (trackRecorders.length > 0) {
+        stopRecording();
+      }
+    } else if (command === 'pause') {
+      togglePause();
+    }
+  });
+
+  window.api.receive('shortcuts', renderShortcuts);
+
+  window.api.receive('upload-status', (update: StatusUpdate) => {
+    try {
+      updateStatus(update.message, update.isError);
       
-      if (message.includes('uploaded successfully') || message.includes('deleted successfully')) {
-        window.api.send('get-audio-history', null);
-        hideUploadIndicator();
-        
-        if (message.includes('uploaded successfully')) {
-          playNotificationSound();
-        }
-      } else if (isError) {
+      if (update.isError) {
         hideUploadIndicator();
       }
     } catch (err) {
@@ -593,12 +2054,16 @@ document.addEventListener('DOMContentLoaded', () => {
   
   window.api.receive('upload-progress', (progressEvent: UploadProgressEvent) => {
     try {
+      if (!isUploading && progressEvent.stage !== 'complete') {
+        showUploadIndicator(progressEvent.message);
+      }
+      
       updateUploadProgress(progressEvent);
       
       if (progressEvent.stage === 'complete' && progressEvent.progress === 100) {
         playNotificationSound();
         
-        window.api.send('get-audio-history', null);
+        requestHistory();
         
         setTimeout(() => {
           hideUploadIndicator();
@@ -610,22 +2075,22 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   });
 
-  window.api.receive('audio-history', (audioFiles: AudioFile[]) => {
+  window.api.receive('audio-history', (page: AudioHistoryPage) => {
     try {
-      if (!Array.isArray(audioFiles)) {
-        console.error('Received invalid audio history format:', audioFiles);
+      if (!page || !Array.isArray(page.items)) {
+        console.error('Received invalid audio history format:', page);
         updateStatus('Failed to load audio history: Invalid data format', true);
         return;
       }
       
-      renderAudioHistory(audioFiles);
+      applyHistoryPage(page);
     } catch (err) {
       console.error('Error rendering audio history:', err);
       updateStatus(`Failed to load audio history: ${err instanceof Error ? err.message : String(err)}`, true);
     }
   });
   
-  window.api.receive('transcription-progress', (data: { key: string; progress: number; message: string }) => {
+  window.api.receive('transcription-progress', (data: TranscriptionProgress) => {
     try {
       console.log(`Transcription progress for ${data.key}: ${data.progress}% - ${data.message}`);
       
@@ -668,14 +2133,8 @@ document.addEventListener('DOMContentLoaded', () => {
       
       if (data.progress >= 100) {
         transcribeButton.textContent = "Processing...";
-      } else if (data.progress < 0) {
-        transcribeButton.disabled = false;
-        transcribeButton.textContent = "Refresh";
-        updateStatus(`Transcription error: ${data.message}`, true);
-        
-        transcribeButton.onclick = () => {
-          window.api.send('get-audio-history', null);
-        };
+      } else if (data.status === 'queued') {
+        transcribeButton.textContent = "Queued...";
       } else {
         transcribeButton.textContent = "Transcribing...";
       }
@@ -684,53 +2143,6 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   });
 
-  window.api.receive('transcription-status', (response: { success: boolean; key: string; transcription?: string; error?: string }) => {
-    try {
-      console.log(`Received transcription status update for key: ${response.key}, success: ${response.success}`);
-      
-      if (response.success) {
-        console.log('Transcription completed successfully, requesting audio history refresh');
-        window.api.send('get-audio-history', null);
-        
-        playNotificationSound();
-        
-        const wordCount = response.transcription ? response.transcription.split(/\s+/).length : 0;
-        updateStatus(`Transcription complete: ${wordCount} words`);
-      } else {
-        const errorMessage = response.error || 'Unknown error';
-        console.error(`Transcription failed for ${response.key}: ${errorMessage}`);
-        
-        let userFriendlyError = errorMessage;
-        
-        if (errorMessage.includes("OpenAI API key") || errorMessage.includes("Authentication") || errorMessage.includes("401")) {
-          userFriendlyError = "The OpenAI API key is missing or invalid. Please set it up in the Cloudflare worker configuration.";
-        } else if (errorMessage.includes("network") || errorMessage.includes("connect") || errorMessage.includes("ENOTFOUND")) {
-          userFriendlyError = "Network error connecting to the transcription service. Check your internet connection.";
-        } else if (errorMessage.includes("not found") || errorMessage.includes("404")) {
-          userFriendlyError = "The audio file could not be found on the storage server.";
-        } else if (errorMessage.includes("Invalid JSON") || errorMessage.includes("Unexpected token")) {
-          userFriendlyError = "Error processing the transcription request. Please try again.";
-        } else if (errorMessage.includes("timed out") || errorMessage.includes("timeout")) {
-          userFriendlyError = "The transcription request timed out. The audio might be too large or the service is currently overloaded.";
-        } else if (errorMessage.includes("cors") || errorMessage.includes("CORS")) {
-          userFriendlyError = "CORS error. Please check the worker configuration.";
-        } else if (errorMessage.includes("format") || errorMessage.includes("unsupported")) {
-          userFriendlyError = "Unsupported audio format. Please ensure the audio is in a valid format.";
-        }
-        
-        updateStatus(`Transcription failed: ${userFriendlyError}`, true);
-        
-        window.api.send('get-audio-history', null);
-      }
-    } catch (err) {
-      console.error('Error handling transcription status:', err);
-      console.error(`Details: ${err instanceof Error ? err.message : String(err)}`);
-      updateStatus('Error updating transcription status', true);
-      
-      window.api.send('get-audio-history', null);
-    }
-  });
-
   window.addEventListener('error', (event: Event) => {
     if (event instanceof ErrorEvent) {
       console.error('Global error:', event.error);
@@ -741,8 +2153,12 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   });
 
+  loadShortcuts();
+  loadSettings();
+  loadUnfinishedRecordings();
+
   try {
-    window.api.send('get-audio-history', null);
+    requestHistory();
   } catch (err) {
     console.error('Error requesting audio history:', err);
     updateStatus(`Failed to request audio history: ${err instanceof Error ? err.message : String(err)}`, true);
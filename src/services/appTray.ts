@@ -0,0 +1,143 @@
+import { Menu, NativeImage, Tray, nativeImage } from "electron";
+import { crc32, deflateSync } from "zlib";
+
+export interface TrayState {
+  recording: RecordingActivity;
+  uploads: UploadQueueStats;
+}
+
+interface AppTrayHandlers {
+  onShow: () => void;
+  onCommand: (command: RecordingCommand) => void;
+  onQuit: () => void;
+}
+
+type Rgb = [number, number, number];
+
+const ICON_SIZE = 32;
+const ICON_COLORS: Record<"idle" | "recording" | "paused" | "uploading" | "failed", Rgb> = {
+  idle: [158, 158, 158],
+  recording: [244, 67, 54],
+  paused: [255, 152, 0],
+  uploading: [33, 150, 243],
+  failed: [121, 85, 72],
+};
+
+export class AppTray {
+  private readonly tray: Tray;
+  private readonly handlers: AppTrayHandlers;
+  private readonly icons = new Map<keyof typeof ICON_COLORS, NativeImage>();
+
+  constructor(handlers: AppTrayHandlers) {
+    this.handlers = handlers;
+    this.tray = new Tray(this.getIcon("idle"));
+    this.tray.on("click", () => this.handlers.onShow());
+    this.update({ recording: "idle", uploads: { queued: 0, uploading: 0, failed: 0 } });
+  }
+
+  update(state: TrayState): void {
+    const pendingUploads = state.uploads.queued + state.uploads.uploading;
+    const iconName =
+      state.recording !== "idle"
+        ? state.recording
+        : pendingUploads > 0
+        ? "uploading"
+        : state.uploads.failed > 0
+        ? "failed"
+        : "idle";
+    const summary = describeState(state);
+
+    this.tray.setImage(this.getIcon(iconName));
+    this.tray.setToolTip(`Audio Recorder: ${summary}`);
+    this.tray.setContextMenu(
+      Menu.buildFromTemplate([
+        { label: summary, enabled: false },
+        { type: "separator" },
+        { label: "Show Window", click: () => this.handlers.onShow() },
+        {
+          label: "Start Recording",
+          enabled: state.recording === "idle",
+          click: () => this.handlers.onCommand("start"),
+        },
+        {
+          label: state.recording === "paused" ? "Resume Recording" : "Pause Recording",
+          enabled: state.recording !== "idle",
+          click: () => this.handlers.onCommand("pause"),
+        },
+        {
+          label: "Stop Recording",
+          enabled: state.recording !== "idle",
+          click: () => this.handlers.onCommand("stop"),
+        },
+        { type: "separator" },
+        { label: "Quit", click: () => this.handlers.onQuit() },
+      ])
+    );
+  }
+
+  destroy(): void {
+    this.tray.destroy();
+  }
+
+  private getIcon(name: keyof typeof ICON_COLORS): NativeImage {
+    let icon = this.icons.get(name);
+    if (!icon) {
+      icon = nativeImage.createFromBuffer(createDotPng(ICON_COLORS[name]), { scaleFactor: 2 });
+      this.icons.set(name, icon);
+    }
+    return icon;
+  }
+}
+
+function describeState(state: TrayState): string {
+  const recording = state.recording === "recording" ? "Recording" : state.recording === "paused" ? "Paused" : "Idle";
+  const pendingUploads = state.uploads.queued + state.uploads.uploading;
+  const parts = [recording];
+
+  if (pendingUploads > 0) {
+    parts.push(`${pendingUploads} upload${pendingUploads === 1 ? "" : "s"} pending`);
+  }
+  if (state.uploads.failed > 0) {
+    parts.push(`${state.uploads.failed} upload${state.uploads.failed === 1 ? "" : "s"} waiting to retry`);
+  }
+
+  return parts.join(" • ");
+}
+
+// There are no icon assets in the app, so the tray dot is drawn and PNG-encoded here
+function createDotPng([red, green, blue]: Rgb): Buffer {
+  const center = (ICON_SIZE - 1) / 2;
+  const radius = ICON_SIZE * 0.4;
+  const rows: Buffer[] = [];
+
+  for (let y = 0; y < ICON_SIZE; y++) {
+    const row = Buffer.alloc(1 + ICON_SIZE * 4);
+    for (let x = 0; x < ICON_SIZE; x++) {
+      const distance = Math.hypot(x - center, y - center);
+      const alpha = Math.round(Math.min(Math.max(radius - distance + 0.5, 0), 1) * 255);
+      row.set([red, green, blue, alpha], 1 + x * 4);
+    }
+    rows.push(row);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(ICON_SIZE, 0);
+  header.writeUInt32BE(ICON_SIZE, 4);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    createPngChunk("IHDR", header),
+    createPngChunk("IDAT", deflateSync(Buffer.concat(rows))),
+    createPngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function createPngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(typeAndData) >>> 0);
+  return Buffer.concat([length, typeAndData, checksum]);
+}
@@ -0,0 +1,37 @@
+const CONTENT_TYPES: Record<string, string> = {
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+};
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+};
+
+export const DEFAULT_AUDIO_EXTENSION = "webm";
+
+export function getExtensionForMimeType(mimeType?: string): string {
+  const baseType = (mimeType || "").split(";")[0].trim().toLowerCase();
+  return EXTENSIONS_BY_MIME_TYPE[baseType] || DEFAULT_AUDIO_EXTENSION;
+}
+
+export function getContentTypeForKey(key: string): string {
+  return CONTENT_TYPES[getKeyExtension(key)] || CONTENT_TYPES[DEFAULT_AUDIO_EXTENSION];
+}
+
+export function isAudioKey(key: string): boolean {
+  return getKeyExtension(key) in CONTENT_TYPES;
+}
+
+function getKeyExtension(key: string): string {
+  const filename = key.split("/").pop() || "";
+  const dotIndex = filename.lastIndexOf(".");
+  return dotIndex === -1 ? "" : filename.substring(dotIndex + 1).toLowerCase();
+}
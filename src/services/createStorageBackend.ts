@@ -0,0 +1,36 @@
+import { FileSystemStorageBackend } from "./fileSystemStorageBackend";
+import { R2StorageBackend } from "./r2StorageBackend";
+import { S3StorageBackend, S3StorageConfig, S3StorageOptions } from "./s3StorageBackend";
+import { StorageBackend } from "./storageBackend";
+
+export interface StorageBackendOptions extends S3StorageOptions {
+  /** Folder used by the filesystem backend when no local path is configured */
+  defaultLocalPath: string;
+}
+
+export function createStorageBackend(settings: AppSettings, options: StorageBackendOptions): StorageBackend {
+  switch (settings.storageBackend) {
+    case "filesystem":
+      return new FileSystemStorageBackend(settings.localPath || options.defaultLocalPath);
+    case "s3":
+      return new S3StorageBackend(getS3Config(settings), options);
+    case "r2":
+      return new R2StorageBackend({ ...getS3Config(settings), accountId: settings.accountId }, options);
+    default:
+      throw new Error(`Unknown storage backend: ${String(settings.storageBackend)}`);
+  }
+}
+
+// Empty retry and timeout settings leave the client defaults in place
+function getS3Config(settings: AppSettings): S3StorageConfig {
+  return {
+    accessKeyId: settings.accessKeyId,
+    secretAccessKey: settings.secretAccessKey,
+    bucketName: settings.bucketName,
+    region: settings.region,
+    endpoint: settings.endpoint,
+    maxRetries: settings.maxRetries ? Number(settings.maxRetries) : undefined,
+    requestTimeoutMs: settings.requestTimeout ? Number(settings.requestTimeout) * 1000 : undefined,
+    connectTimeoutMs: settings.connectTimeout ? Number(settings.connectTimeout) * 1000 : undefined,
+  };
+}
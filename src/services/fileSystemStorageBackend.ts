@@ -0,0 +1,180 @@
+import { constants as fsConstants, promises as fs } from "fs";
+import * as path from "path";
+import * as url from "url";
+import {
+  AudioSource,
+  StorageBackend,
+  StoredObject,
+  UploadAudioOptions,
+  generateAudioKey,
+  getAudioSourceSize,
+  reportUploadCompleted,
+} from "./storageBackend";
+
+/**
+ * Keeps recordings in a folder on this machine, e.g. a synced or network drive. The worker cannot
+ * reach these files, so transcription and joining session segments are unavailable.
+ * Object metadata is not stored; everything the app reads back lives in the session manifests
+ */
+export class FileSystemStorageBackend implements StorageBackend {
+  public readonly label = "local folder";
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    if (!rootDir) {
+      throw new Error("Local storage folder not configured");
+    }
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async uploadAudio(
+    source: AudioSource,
+    progressCallback?: (event: UploadProgressEvent) => void,
+    options: UploadAudioOptions = {}
+  ): Promise<string> {
+    const size = source ? getAudioSourceSize(source) : 0;
+    if (size === 0) {
+      throw new Error("Empty audio data provided");
+    }
+
+    const key = options.key || generateAudioKey();
+
+    if (progressCallback) {
+      progressCallback({
+        stage: "uploading",
+        progress: 25,
+        message: `Saving to ${this.rootDir}...`,
+        key,
+        bytesUploaded: 0,
+        totalBytes: size,
+      });
+    }
+
+    try {
+      await this.writeFile(key, source);
+      console.log(`Saved ${key} to local storage (${size} bytes)`);
+    } catch (error) {
+      console.error(`Error saving ${key} to local storage:`, error);
+      throw new Error(`Failed to save audio to ${this.rootDir}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    reportUploadCompleted(this.label, key, size, progressCallback);
+    return key;
+  }
+
+  async listObjects(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    // Only walk the deepest folder the prefix names, then filter on the rest of it
+    const prefixDir = prefix.includes("/") ? prefix.substring(0, prefix.lastIndexOf("/")) : "";
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(path.join(this.rootDir, relativeDir), { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return;
+        }
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const key = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          await walk(key);
+        } else if (entry.isFile() && key.startsWith(prefix) && !key.endsWith(".tmp")) {
+          const stats = await fs.stat(path.join(this.rootDir, key));
+          objects.push({
+            key,
+            size: stats.size,
+            lastModified: stats.mtime.toISOString(),
+            etag: `${stats.size}-${Math.floor(stats.mtimeMs)}`,
+          });
+        }
+      }
+    };
+
+    await walk(prefixDir);
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const objects = await this.listObjects(prefix);
+    return objects.map((object) => object.key);
+  }
+
+  async deleteAudio(key: string): Promise<void> {
+    try {
+      await fs.rm(this.resolveKey(key), { force: true });
+      console.log(`Successfully deleted audio file: ${key}`);
+    } catch (error) {
+      console.error(`Error deleting audio file ${key}:`, error);
+      throw new Error(`Failed to delete audio file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getJson<T>(key: string): Promise<T | null> {
+    const body = await this.getObject(key);
+    return body ? (JSON.parse(body.toString("utf-8")) as T) : null;
+  }
+
+  async putJson(key: string, value: unknown): Promise<void> {
+    await this.writeFile(key, Buffer.from(JSON.stringify(value, null, 2)));
+  }
+
+  async getSignedUrl(key: string): Promise<string> {
+    try {
+      const filePath = this.resolveKey(key);
+      await fs.access(filePath);
+      return url.pathToFileURL(filePath).href;
+    } catch (error) {
+      console.error("Error generating local file URL:", error);
+      return "";
+    }
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      await fs.mkdir(this.rootDir, { recursive: true });
+      await fs.access(this.rootDir, fsConstants.R_OK | fsConstants.W_OK);
+      return { success: true, message: `Folder '${this.rootDir}' is writable` };
+    } catch (error) {
+      console.error("Local storage check failed:", error);
+      return {
+        success: false,
+        message: `Cannot write to '${this.rootDir}': ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  private async writeFile(key: string, source: AudioSource): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    if (source instanceof Uint8Array) {
+      await fs.writeFile(`${filePath}.tmp`, source);
+    } else {
+      await fs.copyFile(source.filePath, `${filePath}.tmp`);
+    }
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  // Keys come from the renderer for playback and deletion, so they must not escape the folder
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, ...key.split("/"));
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
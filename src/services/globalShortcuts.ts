@@ -0,0 +1,96 @@
+import { globalShortcut } from "electron";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export const DEFAULT_SHORTCUTS: RecordingShortcuts = {
+  start: "CommandOrControl+Shift+R",
+  stop: "CommandOrControl+Shift+S",
+  pause: "CommandOrControl+Shift+P",
+};
+
+const COMMANDS: RecordingCommand[] = ["start", "stop", "pause"];
+
+export class GlobalShortcuts {
+  private readonly filePath: string;
+  private readonly onCommand: (command: RecordingCommand) => void;
+  private shortcuts: RecordingShortcuts = { ...DEFAULT_SHORTCUTS };
+  private errors: ShortcutStatus["errors"] = {};
+
+  constructor(filePath: string, onCommand: (command: RecordingCommand) => void) {
+    this.filePath = filePath;
+    this.onCommand = onCommand;
+  }
+
+  async load(): Promise<ShortcutStatus> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as Partial<RecordingShortcuts>;
+      this.shortcuts = { ...DEFAULT_SHORTCUTS, ...stored };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn("Could not read shortcut settings, using the defaults:", error);
+      }
+    }
+
+    return this.register();
+  }
+
+  getStatus(): ShortcutStatus {
+    return { shortcuts: { ...this.shortcuts }, errors: { ...this.errors } };
+  }
+
+  /**
+   * Saves and registers new accelerators; an empty accelerator turns that shortcut off.
+   * Accelerators the OS refuses (taken by another app or malformed) are kept but reported back
+   */
+  async update(shortcuts: RecordingShortcuts): Promise<ShortcutStatus> {
+    this.shortcuts = {
+      start: (shortcuts.start || "").trim(),
+      stop: (shortcuts.stop || "").trim(),
+      pause: (shortcuts.pause || "").trim(),
+    };
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(this.shortcuts, null, 2));
+    await fs.rename(tempPath, this.filePath);
+
+    return this.register();
+  }
+
+  unregisterAll(): void {
+    globalShortcut.unregisterAll();
+  }
+
+  private register(): ShortcutStatus {
+    globalShortcut.unregisterAll();
+    this.errors = {};
+
+    const seen = new Map<string, RecordingCommand>();
+    for (const command of COMMANDS) {
+      const accelerator = this.shortcuts[command];
+      if (!accelerator) {
+        continue;
+      }
+
+      const duplicate = seen.get(accelerator.toLowerCase());
+      if (duplicate) {
+        this.errors[command] = `Already used for ${duplicate}`;
+        continue;
+      }
+      seen.set(accelerator.toLowerCase(), command);
+
+      try {
+        if (!globalShortcut.register(accelerator, () => this.onCommand(command))) {
+          this.errors[command] = "In use by another application";
+        }
+      } catch (error) {
+        this.errors[command] = `Invalid shortcut: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    const registered = COMMANDS.filter((command) => this.shortcuts[command] && !this.errors[command]);
+    console.log(`Registered global shortcuts for ${registered.join(", ") || "nothing"}`);
+
+    return this.getStatus();
+  }
+}
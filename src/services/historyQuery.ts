@@ -0,0 +1,74 @@
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+interface HistoryCursor {
+  timestamp: string;
+  key: string;
+}
+
+/**
+ * Filters the history newest first and returns one page of it
+ * The cursor points at the last item of the previous page, so pages stay stable when recordings are added or removed
+ */
+export function queryHistory(files: AudioFile[], query: AudioHistoryQuery = {}): AudioHistoryPage {
+  const pageSize = Math.min(Math.max(Math.floor(query.pageSize || DEFAULT_HISTORY_PAGE_SIZE), 1), MAX_HISTORY_PAGE_SIZE);
+  const from = query.from ? new Date(query.from).getTime() : undefined;
+  const to = query.to ? new Date(query.to).getTime() : undefined;
+
+  const matching = files
+    .filter((file) => {
+      const time = new Date(file.timestamp).getTime();
+      if (from !== undefined && !isNaN(from) && time < from) {
+        return false;
+      }
+      if (to !== undefined && !isNaN(to) && time > to) {
+        return false;
+      }
+      if (
+        query.hasTranscription !== undefined &&
+        Boolean(file.hasTranscription || file.transcription) !== query.hasTranscription
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .sort(compareNewestFirst);
+
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const start = cursor ? matching.findIndex((file) => compareNewestFirst(file, cursor) > 0) : 0;
+  const items = start === -1 ? [] : matching.slice(start, start + pageSize);
+
+  const last = items[items.length - 1];
+  const hasMore = start !== -1 && start + pageSize < matching.length;
+
+  return {
+    items,
+    nextCursor: hasMore && last ? encodeCursor({ timestamp: last.timestamp, key: last.key }) : undefined,
+    total: matching.length,
+    query: { ...query, pageSize },
+  };
+}
+
+function compareNewestFirst(a: HistoryCursor, b: HistoryCursor): number {
+  const timeDifference = new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+  if (timeDifference !== 0) {
+    return timeDifference;
+  }
+  return b.key.localeCompare(a.key);
+}
+
+function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): HistoryCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8")) as HistoryCursor;
+    if (typeof cursor.timestamp !== "string" || typeof cursor.key !== "string") {
+      throw new Error("Cursor is missing fields");
+    }
+    return cursor;
+  } catch (error) {
+    throw new Error(`Invalid history cursor: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+export interface CompletedPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+export interface PendingUpload {
+  id: string;
+  key: string;
+  contentType: string;
+  metadata?: Record<string, string>;
+  size: number;
+  partSize: number;
+  uploadId?: string;
+  parts: CompletedPart[];
+  createdAt: string;
+}
+
+export class MultipartUploadStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async create(
+    key: string,
+    size: number,
+    partSize: number,
+    contentType: string,
+    metadata?: Record<string, string>
+  ): Promise<PendingUpload> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const upload: PendingUpload = {
+      id: uuidv4(),
+      key,
+      contentType,
+      metadata,
+      size,
+      partSize,
+      parts: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.save(upload);
+    console.log(`Stored pending upload ${upload.id} for ${key} (${size} bytes)`);
+
+    return upload;
+  }
+
+  async save(upload: PendingUpload): Promise<void> {
+    const statePath = this.statePath(upload);
+    const tempPath = `${statePath}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(upload, null, 2));
+    await fs.rename(tempPath, statePath);
+  }
+
+  async findByKey(key: string): Promise<PendingUpload | undefined> {
+    const uploads = await this.list();
+    return uploads.find((upload) => upload.key === key);
+  }
+
+  async remove(upload: PendingUpload): Promise<void> {
+    await fs.rm(this.statePath(upload), { force: true });
+  }
+
+  async list(): Promise<PendingUpload[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const uploads: PendingUpload[] = [];
+    for (const entry of entries.filter((name) => name.endsWith(".json"))) {
+      try {
+        const raw = await fs.readFile(path.join(this.directory, entry), "utf-8");
+        uploads.push(JSON.parse(raw) as PendingUpload);
+      } catch (error) {
+        console.warn(`Skipping unreadable pending upload state ${entry}:`, error);
+      }
+    }
+
+    return uploads.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private statePath(upload: PendingUpload): string {
+    return path.join(this.directory, `${upload.id}.json`);
+  }
+}
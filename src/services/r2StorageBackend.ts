@@ -0,0 +1,27 @@
+import { S3StorageBackend, S3StorageConfig, S3StorageOptions } from "./s3StorageBackend";
+
+export interface R2StorageConfig extends Omit<S3StorageConfig, "region"> {
+  accountId: string;
+}
+
+/**
+ * Cloudflare R2 through its S3 API. The endpoint follows from the account ID unless a custom one
+ * (e.g. a jurisdiction specific endpoint) is configured
+ */
+export class R2StorageBackend extends S3StorageBackend {
+  constructor(config: R2StorageConfig, options: S3StorageOptions = {}) {
+    if (!config.endpoint && !config.accountId) {
+      throw new Error("R2 service initialization failed: R2 configuration is missing accountId");
+    }
+
+    super(
+      {
+        ...config,
+        region: "auto",
+        endpoint: config.endpoint || `https://${config.accountId}.r2.cloudflarestorage.com`,
+      },
+      options,
+      "R2"
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { EncryptionKeyStore } from "../config/encryptionKeyStore";
+
+export const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+export const ENCRYPTED_CONTENT_TYPE = "application/octet-stream";
+
+// "AREC" followed by the format version
+const MAGIC = Buffer.from("AREC", "ascii");
+const FORMAT_VERSION = 1;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DATA_KEY_LENGTH = 32;
+
+export interface EncryptedRecording {
+  data: Buffer;
+  envelope: EncryptionEnvelope;
+}
+
+export interface RecordingDataKey {
+  dataKey: Buffer;
+  envelope: EncryptionEnvelope;
+  header: Buffer;
+}
+
+// Stored as x-amz-meta-* headers next to the segment metadata
+export function getEncryptionMetadata(envelope: EncryptionEnvelope): Record<string, string> {
+  return {
+    encryption: ENCRYPTION_ALGORITHM,
+    "key-version": String(envelope.keyVersion),
+  };
+}
+
+/**
+ * Envelope encryption of recordings: every object gets its own AES-256-GCM data key, which is
+ * wrapped with the current local key. An encrypted object is self-describing:
+ *
+ *   "AREC" | format version (1 byte) | key version (uint32) | wrapped key length (uint16) | wrapped key
+ *   | IV (12 bytes) | ciphertext | GCM tag (16 bytes)
+ *
+ * The header is authenticated as additional data. A data key can be handed to the worker for a
+ * single job without exposing the local key or any other recording. The transcript the worker
+ * produces from it is stored unencrypted
+ */
+export class RecordingEncryption {
+  private readonly keyStore: EncryptionKeyStore;
+
+  constructor(keyStore: EncryptionKeyStore) {
+    this.keyStore = keyStore;
+  }
+
+  async createDataKey(): Promise<RecordingDataKey> {
+    const { version, key } = await this.keyStore.getCurrentKey();
+    const dataKey = randomBytes(DATA_KEY_LENGTH);
+    const envelope: EncryptionEnvelope = {
+      keyVersion: version,
+      wrappedKey: seal(key, dataKey).toString("base64"),
+    };
+
+    return { dataKey, envelope, header: createHeader(envelope) };
+  }
+
+  async encrypt(data: Uint8Array): Promise<EncryptedRecording> {
+    const { dataKey, envelope, header } = await this.createDataKey();
+    return {
+      data: Buffer.concat([header, seal(dataKey, data, header)]),
+      envelope,
+    };
+  }
+
+  async decrypt(data: Buffer): Promise<Buffer> {
+    const { envelope, headerLength } = parseHeader(data);
+    const dataKey = await this.unwrapDataKey(envelope);
+    return open(dataKey, data.subarray(headerLength), data.subarray(0, headerLength));
+  }
+
+  async unwrapDataKey(envelope: EncryptionEnvelope): Promise<Buffer> {
+    const key = await this.keyStore.getKey(envelope.keyVersion);
+    return open(key, Buffer.from(envelope.wrappedKey, "base64"));
+  }
+}
+
+export function isEncryptedRecording(data: Buffer): boolean {
+  return data.length > MAGIC.length && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+function createHeader(envelope: EncryptionEnvelope): Buffer {
+  const wrappedKey = Buffer.from(envelope.wrappedKey, "base64");
+  const fields = Buffer.alloc(7);
+  fields.writeUInt8(FORMAT_VERSION, 0);
+  fields.writeUInt32BE(envelope.keyVersion, 1);
+  fields.writeUInt16BE(wrappedKey.length, 5);
+  return Buffer.concat([MAGIC, fields, wrappedKey]);
+}
+
+function parseHeader(data: Buffer): { envelope: EncryptionEnvelope; headerLength: number } {
+  if (!isEncryptedRecording(data) || data.length < MAGIC.length + 7) {
+    throw new Error("Not an encrypted recording");
+  }
+
+  const formatVersion = data.readUInt8(MAGIC.length);
+  if (formatVersion !== FORMAT_VERSION) {
+    throw new Error(`Unsupported encrypted recording format ${formatVersion}`);
+  }
+
+  const keyVersion = data.readUInt32BE(MAGIC.length + 1);
+  const wrappedKeyLength = data.readUInt16BE(MAGIC.length + 5);
+  const headerLength = MAGIC.length + 7 + wrappedKeyLength;
+
+  return {
+    envelope: { keyVersion, wrappedKey: data.subarray(MAGIC.length + 7, headerLength).toString("base64") },
+    headerLength,
+  };
+}
+
+// IV | ciphertext | tag, the same layout WebCrypto produces in the worker
+function seal(key: Buffer, plaintext: Uint8Array, additionalData?: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+  if (additionalData) {
+    cipher.setAAD(additionalData);
+  }
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+function open(key: Buffer, sealed: Buffer, additionalData?: Buffer): Buffer {
+  if (sealed.length < IV_LENGTH + TAG_LENGTH) {
+    throw new Error("Encrypted data is truncated");
+  }
+
+  const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+  if (additionalData) {
+    decipher.setAAD(additionalData);
+  }
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)), decipher.final()]);
+}
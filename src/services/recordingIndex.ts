@@ -0,0 +1,222 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { isAudioKey } from "./audioFormats";
+import { getSessionKey } from "./recordingSessionService";
+import { StorageBackend, StoredObject, getTimestampFromKey } from "./storageBackend";
+import { TranscriptSearchIndex } from "./transcriptSearchIndex";
+import { getTranscriptionKey } from "./transcriptSchema";
+
+const INDEX_VERSION = 1;
+
+interface IndexedRecording {
+  id: string;
+  key: string;
+  timestamp: string;
+  size: number;
+  etag?: string;
+  durationMs?: number;
+  hasTranscription: boolean;
+  title?: string;
+  tags: string[];
+  session?: RecordingSession;
+}
+
+interface StoredIndex {
+  version: number;
+  reconciledAt?: string;
+  recordings: IndexedRecording[];
+}
+
+export interface RecordingMetadataUpdate {
+  title?: string;
+  tags?: string[];
+}
+
+export class RecordingIndex {
+  private readonly filePath: string;
+  private recordings = new Map<string, IndexedRecording>();
+  private reconciledAt: string | undefined;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as StoredIndex;
+      if (stored.version !== INDEX_VERSION || !Array.isArray(stored.recordings)) {
+        console.warn(`Discarding recording index with unsupported version ${stored.version}`);
+        return;
+      }
+
+      this.recordings = new Map(stored.recordings.map((recording) => [recording.id, recording]));
+      this.reconciledAt = stored.reconciledAt;
+      console.log(`Loaded recording index with ${this.recordings.size} recording(s)`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn("Could not read recording index, it will be rebuilt:", error);
+      }
+    }
+  }
+
+  isPopulated(): boolean {
+    return this.reconciledAt !== undefined;
+  }
+
+  list(): AudioFile[] {
+    return Array.from(this.recordings.values()).map((recording) => ({
+      key: recording.key,
+      timestamp: recording.timestamp,
+      size: recording.size,
+      durationMs: recording.durationMs,
+      hasTranscription: recording.hasTranscription,
+      title: recording.title,
+      tags: recording.tags,
+      session: recording.session,
+    }));
+  }
+
+  async updateMetadata(key: string, update: RecordingMetadataUpdate): Promise<void> {
+    const recording = this.findByKey(key);
+    if (!recording) {
+      throw new Error(`Recording not found: ${key}`);
+    }
+
+    if (update.title !== undefined) {
+      recording.title = update.title.trim() || undefined;
+    }
+    if (update.tags !== undefined) {
+      recording.tags = Array.from(new Set(update.tags.map((tag) => tag.trim()).filter(Boolean)));
+    }
+
+    await this.save();
+  }
+
+  async removeKey(key: string): Promise<void> {
+    const recording = this.findByKey(key);
+    if (recording) {
+      this.recordings.delete(recording.id);
+      await this.save();
+    }
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    if (this.recordings.delete(getSessionRecordingId(sessionId))) {
+      await this.save();
+    }
+  }
+
+  /**
+   * Brings the index in line with a listing of the recordings folder
+   * Sizes and transcription status come from the listing itself; session files are only downloaded
+   * when their ETag changed, and titles and tags are kept across reconciles. Returns whether anything changed
+   */
+  async reconcile(storage: StorageBackend, objects: StoredObject[], transcripts: TranscriptSearchIndex): Promise<boolean> {
+    const transcriptionKeys = new Set(
+      objects.filter((object) => object.key.includes("/transcriptions/")).map((object) => object.key)
+    );
+
+    const live = new Map<string, IndexedRecording>();
+    let changed = false;
+
+    for (const object of objects) {
+      if (object.key.includes("/transcriptions/") || object.key.includes("/sessions/") || !isAudioKey(object.key)) {
+        continue;
+      }
+
+      const existing = this.recordings.get(object.key);
+      const transcript = transcripts.get(object.key);
+      const recording: IndexedRecording = {
+        id: object.key,
+        key: object.key,
+        timestamp: existing ? existing.timestamp : getTimestampFromKey(object.key),
+        size: object.size,
+        etag: object.etag,
+        durationMs: transcript && transcript.duration !== undefined ? Math.round(transcript.duration * 1000) : existing?.durationMs,
+        hasTranscription: transcriptionKeys.has(getTranscriptionKey(object.key)),
+        title: existing?.title,
+        tags: existing ? existing.tags : [],
+      };
+
+      changed = changed || !existing || !isSameRecording(existing, recording);
+      live.set(recording.id, recording);
+    }
+
+    for (const object of objects.filter((candidate) => candidate.key.endsWith("/session.json"))) {
+      const sessionId = object.key.split("/").slice(-2)[0];
+      const id = getSessionRecordingId(sessionId);
+      const existing = this.recordings.get(id);
+
+      let session = existing?.session;
+      if (!existing || existing.etag !== object.etag || !session) {
+        try {
+          session = (await storage.getJson<RecordingSession>(object.key)) || undefined;
+        } catch (error) {
+          console.warn(`Could not read recording session ${object.key}:`, error);
+        }
+      }
+
+      if (!session) {
+        continue;
+      }
+
+      const key = session.assetKey || session.segmentKeys[0] || getSessionKey(session.id);
+      const recording: IndexedRecording = {
+        id,
+        key,
+        timestamp: session.startedAt,
+        size: session.totalSize,
+        etag: object.etag,
+        durationMs: session.totalDurationMs,
+        hasTranscription: transcriptionKeys.has(getTranscriptionKey(key)),
+        title: existing?.title,
+        tags: existing ? existing.tags : [],
+        session,
+      };
+
+      changed = changed || !existing || !isSameRecording(existing, recording);
+      live.set(id, recording);
+    }
+
+    const removed = Array.from(this.recordings.keys()).filter((id) => !live.has(id)).length;
+    changed = changed || removed > 0;
+
+    this.recordings = live;
+    this.reconciledAt = new Date().toISOString();
+    await this.save();
+
+    console.log(`Recording index reconciled: ${live.size} recording(s), ${removed} removed${changed ? "" : ", no changes"}`);
+    return changed;
+  }
+
+  private findByKey(key: string): IndexedRecording | undefined {
+    return Array.from(this.recordings.values()).find((recording) => recording.key === key);
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      reconciledAt: this.reconciledAt,
+      recordings: Array.from(this.recordings.values()),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+function getSessionRecordingId(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+function isSameRecording(a: IndexedRecording, b: IndexedRecording): boolean {
+  return (
+    a.key === b.key &&
+    a.size === b.size &&
+    a.etag === b.etag &&
+    a.durationMs === b.durationMs &&
+    a.hasTranscription === b.hasTranscription
+  );
+}
@@ -0,0 +1,129 @@
+import { getEncryptionMetadata } from "./recordingEncryption";
+import { StorageBackend, getSessionPrefix } from "./storageBackend";
+import { getTranscriptionKey } from "./transcriptSchema";
+
+/** Data keys the worker needs to join encrypted segments, all base64 encoded */
+export interface SessionEncryptionKeys {
+  segmentKeys: Record<string, string>;
+  output: { dataKey: string; header: string; envelope: EncryptionEnvelope };
+}
+
+export function getSessionKey(sessionId: string): string {
+  return `${getSessionPrefix(sessionId)}session.json`;
+}
+
+// Stored as x-amz-meta-* headers on each segment so the object describes itself without its session.json
+export function getSegmentMetadata(segment: AudioSegmentInfo): Record<string, string> {
+  return {
+    "duration-ms": String(Math.round(segment.durationMs)),
+    ...(segment.trimmedSilenceMs !== undefined ? { "trimmed-silence-ms": String(Math.round(segment.trimmedSilenceMs)) } : {}),
+    ...(segment.encryption ? getEncryptionMetadata(segment.encryption) : {}),
+  };
+}
+
+export class RecordingSessionService {
+  private readonly storage: StorageBackend;
+  private readonly workerUrl: string | undefined;
+
+  constructor(storage: StorageBackend, workerUrl?: string) {
+    this.storage = storage;
+    this.workerUrl = workerUrl;
+  }
+
+  async recordSegment(key: string, size: number, segment: AudioSegmentInfo): Promise<RecordingSession> {
+    const sessionKey = getSessionKey(segment.sessionId);
+    const session = (await this.storage.getJson<RecordingSession>(sessionKey)) || {
+      id: segment.sessionId,
+      startedAt: segment.startedAt,
+      segmentKeys: [],
+      segments: [],
+      totalDurationMs: 0,
+      totalSize: 0,
+      status: "recording",
+      updatedAt: segment.startedAt,
+      ...(segment.track ? { track: segment.track, recordingId: segment.recordingId } : {}),
+    };
+
+    session.segments = session.segments.filter((existing) => existing.index !== segment.index);
+    session.segments.push({
+      index: segment.index,
+      key,
+      startedAt: segment.startedAt,
+      durationMs: segment.durationMs,
+      size,
+      ...(segment.trimmedSilenceMs !== undefined ? { trimmedSilenceMs: segment.trimmedSilenceMs } : {}),
+      ...(segment.encryption ? { encryption: segment.encryption } : {}),
+    });
+    session.segments.sort((a, b) => a.index - b.index);
+
+    session.segmentKeys = session.segments.map((existing) => existing.key);
+    session.totalDurationMs = session.segments.reduce((total, existing) => total + existing.durationMs, 0);
+    session.totalSize = session.segments.reduce((total, existing) => total + existing.size, 0);
+    if (session.segments.some((existing) => existing.trimmedSilenceMs !== undefined)) {
+      session.trimmedSilenceMs = session.segments.reduce((total, existing) => total + (existing.trimmedSilenceMs || 0), 0);
+    }
+
+    if (segment.startedAt < session.startedAt) {
+      session.startedAt = segment.startedAt;
+    }
+
+    if (segment.isFinal) {
+      session.totalSegments = segment.index + 1;
+      session.endedAt = new Date(new Date(segment.startedAt).getTime() + segment.durationMs).toISOString();
+    }
+
+    if (
+      session.status === "recording" &&
+      session.totalSegments !== undefined &&
+      session.segments.length === session.totalSegments
+    ) {
+      session.status = "uploaded";
+    }
+    session.updatedAt = new Date().toISOString();
+
+    await this.storage.putJson(sessionKey, session);
+    console.log(`Updated session ${session.id}: ${session.segments.length} segment(s), ${session.status}`);
+
+    return session;
+  }
+
+  async concatenate(sessionId: string, encryption?: SessionEncryptionKeys): Promise<RecordingSession> {
+    if (!this.workerUrl) {
+      throw new Error("Worker URL not configured, cannot join session segments");
+    }
+
+    const response = await fetch(`${this.workerUrl}/concatenate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ key: getSessionKey(sessionId), encryption }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Concatenation failed with status ${response.status}`);
+    }
+
+    console.log(`Session ${sessionId} joined into ${result.session.assetKey}`);
+    return result.session as RecordingSession;
+  }
+
+  /**
+   * Deletes everything under the session prefix and the transcription of the joined recording, which
+   * lives in the transcriptions folder. Returns the manifest so callers can drop their index entries
+   */
+  async deleteSession(sessionId: string): Promise<RecordingSession | null> {
+    const session = await this.storage.getJson<RecordingSession>(getSessionKey(sessionId));
+    const keys = await this.storage.listKeys(getSessionPrefix(sessionId));
+    if (session?.assetKey) {
+      keys.push(getTranscriptionKey(session.assetKey));
+    }
+
+    for (const key of keys) {
+      await this.storage.deleteAudio(key);
+    }
+    console.log(`Deleted session ${sessionId} (${keys.length} object(s))`);
+    return session;
+  }
+}
@@ -0,0 +1,128 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export interface SpooledSegment {
+  segment: PendingSegment;
+  size: number;
+  /** When the last chunk was written, which is roughly when recording stopped */
+  updatedAt: string;
+}
+
+type SegmentRef = Pick<AudioSegmentInfo, "sessionId" | "index">;
+
+/**
+ * Writes each segment to disk chunk by chunk while it is recorded, so a crash or a closed window
+ * loses at most the last time slice. Segments left here from an earlier run can be recovered
+ */
+export class RecordingSpool {
+  private readonly directory: string;
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  begin(segment: PendingSegment): Promise<void> {
+    return this.enqueueWrite(segment, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.dataPath(segment), new Uint8Array(0));
+
+      const statePath = this.statePath(segment);
+      await fs.writeFile(`${statePath}.tmp`, JSON.stringify(segment, null, 2));
+      await fs.rename(`${statePath}.tmp`, statePath);
+    });
+  }
+
+  append(chunk: RecordingChunk): Promise<void> {
+    return this.enqueueWrite(chunk, () => fs.appendFile(this.dataPath(chunk), chunk.data));
+  }
+
+  /**
+   * Waits for the segment's outstanding writes and returns everything recorded. The files stay in
+   * place until remove() is called, so a segment that fails to queue can still be recovered
+   */
+  async finish(segment: SegmentRef): Promise<Buffer> {
+    const id = getSegmentId(segment);
+    const pending = this.writes.get(id);
+    this.writes.delete(id);
+
+    await pending;
+    return this.read(segment);
+  }
+
+  read(segment: SegmentRef): Promise<Buffer> {
+    return fs.readFile(this.dataPath(segment));
+  }
+
+  async remove(segment: SegmentRef): Promise<void> {
+    await Promise.all([
+      fs.rm(this.statePath(segment), { force: true }),
+      fs.rm(this.dataPath(segment), { force: true }),
+    ]);
+  }
+
+  /**
+   * Segments on disk that are not being recorded right now
+   */
+  async list(): Promise<SpooledSegment[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const spooled: SpooledSegment[] = [];
+    for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+      try {
+        const segment = JSON.parse(await fs.readFile(path.join(this.directory, name), "utf-8")) as PendingSegment;
+        if (this.writes.has(getSegmentId(segment))) {
+          continue;
+        }
+
+        const stats = await fs.stat(this.dataPath(segment));
+        spooled.push({ segment, size: stats.size, updatedAt: stats.mtime.toISOString() });
+      } catch (error) {
+        console.warn(`Skipping unreadable spooled recording ${name}:`, error);
+      }
+    }
+
+    return spooled.sort(
+      (a, b) => a.segment.sessionId.localeCompare(b.segment.sessionId) || a.segment.index - b.segment.index
+    );
+  }
+
+  /**
+   * Forgets the segments being recorded, e.g. when the window reloads and its recorders are gone.
+   * Their files are then listed as unfinished
+   */
+  releaseActiveSegments(): void {
+    this.writes.clear();
+  }
+
+  // Writes to one segment run in order; once one fails the rest fail with it rather than leave a gap
+  private enqueueWrite(segment: SegmentRef, write: () => Promise<void>): Promise<void> {
+    const id = getSegmentId(segment);
+    const next = (this.writes.get(id) || Promise.resolve()).then(write);
+    this.writes.set(id, next);
+    return next;
+  }
+
+  private statePath(segment: SegmentRef): string {
+    return path.join(this.directory, `${getSegmentId(segment)}.json`);
+  }
+
+  private dataPath(segment: SegmentRef): string {
+    return path.join(this.directory, `${getSegmentId(segment)}.part`);
+  }
+}
+
+function getSegmentId(segment: SegmentRef): string {
+  if (!/^[A-Za-z0-9-]+$/.test(segment.sessionId) || !Number.isInteger(segment.index) || segment.index < 0) {
+    throw new Error("Invalid recording segment reference");
+  }
+  return `${segment.sessionId}-${segment.index}`;
+}
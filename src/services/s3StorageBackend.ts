@@ -0,0 +1,549 @@
+import {
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl as createPresignedUrl } from "@aws-sdk/s3-request-presigner";
+import { NodeHttpHandler } from "@smithy/node-http-handler";
+import * as os from "os";
+import * as path from "path";
+import { getContentTypeForKey } from "./audioFormats";
+import { CompletedPart, MultipartUploadStore, PendingUpload } from "./multipartUploadStore";
+import {
+  AudioSource,
+  StorageBackend,
+  StoredObject,
+  UploadAudioOptions,
+  generateAudioKey,
+  getAudioSourceSize,
+  readAudioSource,
+  reportUploadCompleted,
+} from "./storageBackend";
+
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+const SIGNED_URL_EXPIRY = 3600;
+const STREAM_RETRY_BASE_DELAY = 500;
+const STREAM_RETRY_MAX_DELAY = 20000;
+const RETRYABLE_NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN", "TimeoutError"];
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+export const DEFAULT_CONNECT_TIMEOUT_MS = 5000;
+
+export interface S3StorageConfig {
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  region: string;
+  /** Leave empty for AWS S3; any other S3 compatible service needs its endpoint URL */
+  endpoint?: string;
+  /** Retries of a failed request, with exponential backoff between them */
+  maxRetries?: number;
+  /** How long a request may stay idle before it is abandoned (and retried) */
+  requestTimeoutMs?: number;
+  connectTimeoutMs?: number;
+}
+
+export interface S3StorageOptions {
+  uploadStateDir?: string;
+  verifyConnection?: boolean;
+}
+
+/**
+ * Storage in any S3 compatible bucket. Custom endpoints (MinIO, Backblaze, Wasabi, ...) are
+ * addressed path style, which all of them support
+ */
+export class S3StorageBackend implements StorageBackend {
+  public readonly label: string;
+  public readonly s3Client: S3Client;
+  public readonly bucketName: string;
+  // Sends the streamed upload requests, which sendStreamingUpload() retries itself
+  private readonly streamingClient: S3Client;
+  private readonly uploadStore: MultipartUploadStore;
+  private readonly maxRetries: number;
+
+  constructor(config: S3StorageConfig, options: S3StorageOptions = {}, label = "S3") {
+    this.label = label;
+
+    try {
+      if (!config) {
+        throw new Error(`${label} configuration is missing`);
+      }
+
+      const requiredFields: (keyof S3StorageConfig)[] = ["accessKeyId", "secretAccessKey", "bucketName"];
+      requiredFields.push(config.endpoint ? "endpoint" : "region");
+
+      requiredFields.forEach((field) => {
+        if (!config[field]) {
+          throw new Error(`${label} configuration is missing ${field}`);
+        }
+      });
+
+      this.bucketName = config.bucketName;
+      this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+      this.uploadStore = new MultipartUploadStore(
+        options.uploadStateDir || path.join(os.tmpdir(), "audio-recorder-r2-uploads")
+      );
+
+      const clientConfig: S3ClientConfig = {
+        endpoint: config.endpoint || undefined,
+        region: config.region || "auto",
+        credentials: {
+          accessKeyId: config.accessKeyId,
+          secretAccessKey: config.secretAccessKey,
+        },
+        forcePathStyle: Boolean(config.endpoint),
+        requestHandler: new NodeHttpHandler({
+          requestTimeout: config.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+          connectionTimeout: config.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS,
+        }),
+        // R2 and most other S3 compatible services reject the flexible checksums the SDK adds by default
+        requestChecksumCalculation: "WHEN_REQUIRED",
+        responseChecksumValidation: "WHEN_REQUIRED",
+      };
+      this.s3Client = new S3Client({ ...clientConfig, maxAttempts: this.maxRetries + 1, retryMode: "standard" });
+      this.streamingClient = new S3Client({ ...clientConfig, maxAttempts: 1 });
+
+      if (options.verifyConnection !== false) {
+        this.testConnection()
+          .then((result) => {
+            if (result.success) {
+              console.log(`Successfully connected to ${label} bucket`);
+            } else {
+              console.error(`Failed to connect to ${label} bucket: ${result.message}`);
+            }
+          })
+          .catch((err) => {
+            console.error(`Failed to test ${label} connection:`, err);
+          });
+      }
+    } catch (err) {
+      console.error(`Failed to initialize ${label} storage:`, err);
+      throw new Error(`${label} service initialization failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  async deleteAudio(key: string): Promise<void> {
+    try {
+      await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+      console.log(`Successfully deleted audio file: ${key}`);
+    } catch (error) {
+      console.error(`Error deleting audio file ${key}:`, error);
+      throw new Error(`Failed to delete audio file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const objects = await this.listObjects(prefix);
+    return objects.map((object) => object.key);
+  }
+
+  async listObjects(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      (response.Contents || []).forEach((obj) => {
+        if (obj.Key) {
+          objects.push({
+            key: obj.Key,
+            size: obj.Size || 0,
+            lastModified: obj.LastModified ? obj.LastModified.toISOString() : undefined,
+            etag: obj.ETag,
+          });
+        }
+      });
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: key }));
+      return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (getErrorCode(error) === "NoSuchKey") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getJson<T>(key: string): Promise<T | null> {
+    const body = await this.getObject(key);
+    return body ? (JSON.parse(body.toString("utf-8")) as T) : null;
+  }
+
+  async putJson(key: string, value: unknown): Promise<void> {
+    await this.s3Client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: JSON.stringify(value, null, 2),
+        ContentType: "application/json",
+      })
+    );
+  }
+
+  async getSignedUrl(key: string): Promise<string> {
+    try {
+      return await createPresignedUrl(this.s3Client, new GetObjectCommand({ Bucket: this.bucketName, Key: key }), {
+        expiresIn: SIGNED_URL_EXPIRY,
+      });
+    } catch (error) {
+      console.error("Error generating signed URL:", error);
+      return "";
+    }
+  }
+
+  async uploadAudio(
+    source: AudioSource,
+    progressCallback?: (event: UploadProgressEvent) => void,
+    options: UploadAudioOptions = {}
+  ): Promise<string> {
+    const size = source ? getAudioSourceSize(source) : 0;
+    if (size === 0) {
+      throw new Error("Empty audio data provided");
+    }
+
+    if (!this.s3Client) {
+      throw new Error(`${this.label} client not initialized`);
+    }
+
+    if (!this.bucketName) {
+      throw new Error(`${this.label} bucket name not configured`);
+    }
+
+    if (progressCallback) {
+      progressCallback({
+        stage: "preparing",
+        progress: 0,
+        message: "Preparing audio for upload...",
+      });
+    }
+
+    const key = options.key || generateAudioKey();
+    const contentType = options.contentType || getContentTypeForKey(key);
+
+    try {
+      console.log(`Attempting to upload to bucket: ${this.bucketName}, key: ${key}, size: ${size} bytes`);
+
+      if (progressCallback) {
+        progressCallback({
+          stage: "uploading",
+          progress: 25,
+          message: `Starting upload to ${this.label}...`,
+          key,
+          bytesUploaded: 0,
+          totalBytes: size,
+        });
+      }
+
+      if (size > MULTIPART_PART_SIZE) {
+        const existingUpload = await this.uploadStore.findByKey(key);
+        const pendingUpload =
+          existingUpload && existingUpload.size === size
+            ? existingUpload
+            : await this.uploadStore.create(key, size, MULTIPART_PART_SIZE, contentType, options.metadata);
+        await this.runMultipartUpload(pendingUpload, source, progressCallback);
+      } else {
+        await this.putObjectWithProgress(key, source, size, contentType, options.metadata, progressCallback);
+      }
+
+      reportUploadCompleted(this.label, key, size, progressCallback);
+
+      return key;
+    } catch (error) {
+      throw this.describeUploadError(error);
+    }
+  }
+
+  private async putObjectWithProgress(
+    key: string,
+    source: AudioSource,
+    size: number,
+    contentType: string,
+    metadata: Record<string, string> | undefined,
+    progressCallback?: (event: UploadProgressEvent) => void
+  ): Promise<void> {
+    await this.sendStreamingUpload(key, (client) =>
+      client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: readAudioSource(source, 0, size, (bytesRead) => {
+            this.reportUploadProgress(key, bytesRead, size, progressCallback);
+          }),
+          ContentLength: size,
+          ContentType: contentType,
+          Metadata: metadata,
+        })
+      )
+    );
+    console.log(`Upload to ${key} completed successfully`);
+  }
+
+  private async runMultipartUpload(
+    pendingUpload: PendingUpload,
+    source: AudioSource,
+    progressCallback?: (event: UploadProgressEvent) => void
+  ): Promise<void> {
+    const { key, partSize, size } = pendingUpload;
+
+    if (pendingUpload.uploadId) {
+      try {
+        pendingUpload.parts = await this.listUploadedParts(key, pendingUpload.uploadId);
+      } catch (error) {
+        if (getErrorCode(error) !== "NoSuchUpload") {
+          throw error;
+        }
+        console.warn(`Multipart upload ${pendingUpload.uploadId} for ${key} no longer exists, starting over`);
+        pendingUpload.uploadId = undefined;
+        pendingUpload.parts = [];
+      }
+    }
+
+    if (!pendingUpload.uploadId) {
+      const created = await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          ContentType: pendingUpload.contentType,
+          Metadata: pendingUpload.metadata,
+        })
+      );
+
+      if (!created.UploadId) {
+        throw new Error(`${this.label} did not return an upload ID for ${key}`);
+      }
+
+      pendingUpload.uploadId = created.UploadId;
+      pendingUpload.parts = [];
+    }
+
+    await this.uploadStore.save(pendingUpload);
+
+    const uploadId = pendingUpload.uploadId;
+    const totalParts = Math.ceil(size / partSize);
+    const completedPartNumbers = new Set(pendingUpload.parts.map((part) => part.PartNumber));
+    let confirmedBytes = pendingUpload.parts.reduce(
+      (total, part) => total + Math.min(partSize, size - (part.PartNumber - 1) * partSize),
+      0
+    );
+
+    this.reportUploadProgress(key, confirmedBytes, size, progressCallback);
+
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (completedPartNumbers.has(partNumber)) {
+        continue;
+      }
+
+      const start = (partNumber - 1) * partSize;
+      const end = Math.min(start + partSize, size);
+      const bytesBeforePart = confirmedBytes;
+
+      // Each part is read from the source as it is sent, so only one part's worth is ever buffered
+      const result = await this.sendStreamingUpload(key, (client) =>
+        client.send(
+          new UploadPartCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            Body: readAudioSource(source, start, end, (bytesRead) => {
+              this.reportUploadProgress(key, bytesBeforePart + bytesRead, size, progressCallback);
+            }),
+            ContentLength: end - start,
+          })
+        )
+      );
+      if (!result.ETag) {
+        throw new Error(`${this.label} did not return an ETag for part ${partNumber} of ${key}`);
+      }
+
+      pendingUpload.parts.push({ PartNumber: partNumber, ETag: result.ETag });
+      await this.uploadStore.save(pendingUpload);
+
+      confirmedBytes += end - start;
+      console.log(`Uploaded part ${partNumber}/${totalParts} of ${key}`);
+      this.reportUploadProgress(key, confirmedBytes, size, progressCallback);
+    }
+
+    await this.s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...pendingUpload.parts].sort((a, b) => a.PartNumber - b.PartNumber),
+        },
+      })
+    );
+
+    await this.uploadStore.remove(pendingUpload);
+    console.log(`Multipart upload to ${key} completed successfully`);
+  }
+
+  /**
+   * The SDK cannot replay a streamed body, so uploads are sent through a client that never retries
+   * and are retried here instead, with a fresh stream per attempt
+   */
+  private async sendStreamingUpload<T>(key: string, send: (client: S3Client) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send(this.streamingClient);
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        const delay = Math.min(STREAM_RETRY_BASE_DELAY * Math.pow(2, attempt), STREAM_RETRY_MAX_DELAY);
+        console.warn(`Upload request for ${key} failed (${getErrorCode(error)}), retrying in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async listUploadedParts(key: string, uploadId: string): Promise<CompletedPart[]> {
+    const parts: CompletedPart[] = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const response = await this.s3Client.send(
+        new ListPartsCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        })
+      );
+
+      (response.Parts || []).forEach((part) => {
+        if (part.PartNumber && part.ETag) {
+          parts.push({ PartNumber: part.PartNumber, ETag: part.ETag });
+        }
+      });
+
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  private reportUploadProgress(
+    key: string,
+    bytesUploaded: number,
+    totalBytes: number,
+    progressCallback?: (event: UploadProgressEvent) => void
+  ): void {
+    if (!progressCallback) {
+      return;
+    }
+
+    const fraction = totalBytes > 0 ? Math.min(bytesUploaded / totalBytes, 1) : 1;
+    progressCallback({
+      stage: "uploading",
+      progress: Math.round(25 + fraction * 25),
+      message: `Uploading to ${this.label}... (${Math.round(fraction * 100)}%)`,
+      key,
+      bytesUploaded,
+      totalBytes,
+    });
+  }
+
+  private describeUploadError(error: unknown): Error {
+    console.error("Raw upload error:", error);
+
+    let enhancedError: Error;
+
+    if (error instanceof Error) {
+      const code = getErrorCode(error);
+      if (code === "AccessDenied" || error.message.includes("AccessDenied")) {
+        enhancedError = new Error(
+          `Access denied to ${this.label} bucket '${this.bucketName}'. Check your credentials and permissions.`
+        );
+        console.error("This is likely an authentication issue. Check your API tokens.");
+      } else if (code === "NoSuchBucket" || error.message.includes("NoSuchBucket")) {
+        enhancedError = new Error(`Bucket '${this.bucketName}' does not exist. Please verify the bucket name.`);
+        console.error(`Attempted to upload to bucket '${this.bucketName}' but it doesn't exist.`);
+      } else if (code === "TimeoutError" || error.message.includes("timeout") || error.message.includes("timed out")) {
+        enhancedError = new Error(`Upload timed out. Please check your network connection.`);
+        console.error(`The request took too long. Check your network connection or ${this.label} service status.`);
+      } else if (code === "ENOTFOUND" || error.message.includes("network") || error.message.includes("ENOTFOUND")) {
+        enhancedError = new Error(`Network error. Please check your internet connection.`);
+        console.error("This appears to be a network connectivity issue.");
+      } else if (error.message.includes("CORS") || error.message.includes("cors")) {
+        enhancedError = new Error(`CORS error. Your ${this.label} bucket may need CORS configuration.`);
+        console.error(`This appears to be a CORS issue. Make sure your ${this.label} bucket has CORS configured.`);
+      } else {
+        enhancedError = new Error(`Failed to upload audio to ${this.label}: ${error.message}`);
+        console.error(`Unclassified error: ${error.message}`);
+      }
+
+      if (error.stack) {
+        enhancedError.stack = error.stack;
+      }
+    } else {
+      enhancedError = new Error(`Unknown error uploading to ${this.label}: ${String(error)}`);
+    }
+
+    console.error(`Error uploading to ${this.label}:`, enhancedError);
+    return enhancedError;
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      console.log(`Testing connection to ${this.label} bucket '${this.bucketName}'...`);
+
+      await this.s3Client.send(new ListObjectsV2Command({ Bucket: this.bucketName, MaxKeys: 1 }));
+      console.log(`Connection test successful. Bucket exists and is accessible.`);
+      return { success: true, message: `Connected to bucket '${this.bucketName}'` };
+    } catch (error) {
+      console.error(`${this.label} connection test failed:`, error);
+
+      const code = getErrorCode(error);
+      const message = error instanceof Error ? error.message : String(error);
+      let description = `Connection failed: ${message}`;
+
+      if (code === "AccessDenied" || code === "InvalidAccessKeyId" || code === "SignatureDoesNotMatch" || message.includes("AccessDenied")) {
+        description = `Access denied. Check your ${this.label} credentials and bucket permissions.`;
+      } else if (code === "NoSuchBucket" || message.includes("NoSuchBucket")) {
+        description = `Bucket '${this.bucketName}' does not exist.`;
+      } else if (code === "ENOTFOUND" || code === "ECONNREFUSED" || message.includes("ENOTFOUND") || message.includes("connect")) {
+        description = "Network error. Check your internet connection and endpoint settings.";
+      }
+
+      console.error(description);
+      return { success: false, message: description };
+    }
+  }
+}
+
+// Service errors carry the S3 error code as their name; network errors keep the Node error code
+function isRetryableError(error: unknown): boolean {
+  const { $metadata } = (error || {}) as { $metadata?: { httpStatusCode?: number } };
+  const status = $metadata?.httpStatusCode;
+  return (status !== undefined && (status >= 500 || status === 429)) || RETRYABLE_NETWORK_CODES.includes(getErrorCode(error));
+}
+
+function getErrorCode(error: unknown): string {
+  const { code, name } = (error || {}) as { code?: string; name?: string };
+  return code || name || "";
+}
@@ -0,0 +1,195 @@
+import { createReadStream } from "fs";
+import { Readable, Transform, pipeline } from "stream";
+import { v4 as uuidv4 } from "uuid";
+import { getFolderName } from "../config/config";
+import { DEFAULT_AUDIO_EXTENSION } from "./audioFormats";
+
+// Streamed bodies are handed over in chunks of this size, so progress can be reported as they go out
+const SOURCE_CHUNK_SIZE = 256 * 1024;
+
+/** Audio that is already on disk; backends read it in ranges instead of loading it whole */
+export interface AudioFileSource {
+  filePath: string;
+  size: number;
+}
+
+export type AudioSource = Uint8Array | AudioFileSource;
+
+export interface UploadAudioOptions {
+  key?: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified?: string;
+  etag?: string;
+}
+
+/**
+ * Where recordings, session manifests and transcripts are kept. Keys are always slash separated
+ * and relative to the root of the bucket or folder
+ */
+export interface StorageBackend {
+  /** Short name used in status and error messages, e.g. "R2" */
+  readonly label: string;
+
+  uploadAudio(
+    source: AudioSource,
+    progressCallback?: (event: UploadProgressEvent) => void,
+    options?: UploadAudioOptions
+  ): Promise<string>;
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  listKeys(prefix: string): Promise<string[]>;
+  deleteAudio(key: string): Promise<void>;
+  /** Resolves to null when the object does not exist */
+  getObject(key: string): Promise<Buffer | null>;
+  getJson<T>(key: string): Promise<T | null>;
+  putJson(key: string, value: unknown): Promise<void>;
+  /** A URL the renderer can play the object from directly; empty when none can be made */
+  getSignedUrl(key: string): Promise<string>;
+  testConnection(): Promise<ConnectionTestResult>;
+}
+
+export function generateAudioKey(extension = DEFAULT_AUDIO_EXTENSION): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const uniqueId = uuidv4().substring(0, 8);
+  return `${getFolderName()}/${timestamp}-${uniqueId}.${extension}`;
+}
+
+export function generateSegmentKey(
+  sessionId: string,
+  index: number,
+  startedAt: string,
+  extension = DEFAULT_AUDIO_EXTENSION
+): string {
+  const timestamp = startedAt.replace(/[:.]/g, "-");
+  return `${getSessionPrefix(sessionId)}${timestamp}-${String(index).padStart(4, "0")}.${extension}`;
+}
+
+export function getSessionPrefix(sessionId: string): string {
+  return `${getFolderName()}/sessions/${sessionId}/`;
+}
+
+export function getTimestampFromKey(key: string): string {
+  try {
+    const match = key.match(/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}(?:-\d{3})?Z)-[a-z0-9]+/);
+    if (!match) {
+      console.log(`No timestamp pattern found in key: ${key}`);
+      throw new Error("Invalid key format");
+    }
+
+    const timestampStr = match[1];
+    console.log(`Extracted timestamp string: ${timestampStr}`);
+
+    const [datePart, timePart] = timestampStr.split("T");
+    if (!datePart || !timePart) {
+      throw new Error("Invalid timestamp format");
+    }
+
+    let formattedTime;
+    if (timePart.includes("-")) {
+      const timeComponents = timePart.split("-");
+
+      if (timeComponents.length > 3) {
+        formattedTime = `${timeComponents[0]}:${timeComponents[1]}:${timeComponents[2]}.${timeComponents[3].replace(
+          "Z",
+          ""
+        )}Z`;
+      } else {
+        formattedTime = `${timeComponents[0]}:${timeComponents[1]}:${timeComponents[2]}`;
+      }
+    } else {
+      formattedTime = timePart;
+    }
+
+    const isoTimestamp = `${datePart}T${formattedTime}`;
+    console.log(`Formatted ISO timestamp: ${isoTimestamp}`);
+
+    const date = new Date(isoTimestamp);
+    if (isNaN(date.getTime())) {
+      console.error(`Invalid date created from: ${isoTimestamp}`);
+      throw new Error("Invalid date");
+    }
+
+    return isoTimestamp;
+  } catch (e) {
+    console.warn("Error extracting timestamp from key:", key, e);
+    return new Date().toISOString();
+  }
+}
+
+export function getAudioSourceSize(source: AudioSource): number {
+  return source instanceof Uint8Array ? source.length : source.size;
+}
+
+/**
+ * Streams bytes [start, end) of the source, calling onRead as chunks are consumed
+ */
+export function readAudioSource(
+  source: AudioSource,
+  start = 0,
+  end = getAudioSourceSize(source),
+  onRead?: (bytesRead: number) => void
+): Readable {
+  const stream =
+    source instanceof Uint8Array
+      ? Readable.from(chunkBytes(source.subarray(start, end)), { objectMode: false })
+      : createReadStream(source.filePath, { start, end: end - 1, highWaterMark: SOURCE_CHUNK_SIZE });
+
+  if (!onRead) {
+    return stream;
+  }
+
+  let bytesRead = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesRead += chunk.length;
+      onRead(bytesRead);
+      callback(null, chunk);
+    },
+  });
+  // pipeline passes read errors on to the returned stream, so the upload fails instead of hanging
+  return pipeline(stream, counter, () => undefined);
+}
+
+function* chunkBytes(data: Uint8Array): Generator<Uint8Array> {
+  for (let offset = 0; offset < data.length; offset += SOURCE_CHUNK_SIZE) {
+    yield data.subarray(offset, offset + SOURCE_CHUNK_SIZE);
+  }
+}
+
+// Progress events shared by every backend once the bytes are stored
+export function reportUploadCompleted(
+  label: string,
+  key: string,
+  size: number,
+  progressCallback?: (event: UploadProgressEvent) => void
+): void {
+  if (!progressCallback) {
+    return;
+  }
+
+  progressCallback({
+    stage: "uploading",
+    progress: 50,
+    message: `Upload to ${label} completed`,
+    key,
+    bytesUploaded: size,
+    totalBytes: size,
+  });
+  progressCallback({
+    stage: "processing",
+    progress: 85,
+    message: "Added to audio history",
+    key,
+  });
+  progressCallback({
+    stage: "complete",
+    progress: 100,
+    message: "Upload successfully completed",
+    key,
+  });
+}
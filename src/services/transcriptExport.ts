@@ -0,0 +1,138 @@
+export type TranscriptExportFormat = "srt" | "vtt" | "txt" | "md" | "json";
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<TranscriptExportFormat, { name: string; extension: string }> = {
+  srt: { name: "SubRip Subtitles", extension: "srt" },
+  vtt: { name: "WebVTT Subtitles", extension: "vtt" },
+  txt: { name: "Plain Text", extension: "txt" },
+  md: { name: "Markdown", extension: "md" },
+  json: { name: "JSON", extension: "json" },
+};
+
+// Used to size a single subtitle cue when the transcript has neither segments nor a duration
+const FALLBACK_WORDS_PER_SECOND = 2.5;
+
+export function isTranscriptExportFormat(format: unknown): format is TranscriptExportFormat {
+  return typeof format === "string" && format in TRANSCRIPT_EXPORT_FORMATS;
+}
+
+export function exportTranscript(
+  format: TranscriptExportFormat,
+  transcript: TranscriptDocument,
+  raw: unknown,
+  title: string
+): string {
+  switch (format) {
+    case "srt":
+      return toSrt(transcript);
+    case "vtt":
+      return toVtt(transcript);
+    case "txt":
+      return toText(transcript);
+    case "md":
+      return toMarkdown(transcript, title);
+    case "json":
+      return JSON.stringify(raw, null, 2);
+  }
+}
+
+function toSrt(transcript: TranscriptDocument): string {
+  return getCues(transcript)
+    .map((cue, index) => {
+      const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+function toVtt(transcript: TranscriptDocument): string {
+  const cues = getCues(transcript).map((cue) => {
+    const text = cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text;
+    return `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+function toText(transcript: TranscriptDocument): string {
+  if (transcript.segments.length === 0) {
+    return `${transcript.text}\n`;
+  }
+
+  const speakerNames = getSpeakerNames(transcript);
+  return (
+    transcript.segments
+      .map((segment) => {
+        const speaker = segment.speaker ? `${speakerNames.get(segment.speaker) || segment.speaker}: ` : "";
+        return `[${formatClock(segment.start)}] ${speaker}${segment.text}`;
+      })
+      .join("\n") + "\n"
+  );
+}
+
+function toMarkdown(transcript: TranscriptDocument, title: string): string {
+  const lines = [`# ${title}`, ""];
+
+  const details = [
+    transcript.language ? `Language: ${transcript.language}` : "",
+    transcript.duration !== undefined ? `Duration: ${formatClock(transcript.duration)}` : "",
+    transcript.processedAt ? `Transcribed: ${new Date(transcript.processedAt).toLocaleString()}` : "",
+  ].filter(Boolean);
+  if (details.length > 0) {
+    lines.push(details.map((detail) => `- ${detail}`).join("\n"), "");
+  }
+
+  if (transcript.segments.length === 0) {
+    lines.push(transcript.text, "");
+    return lines.join("\n");
+  }
+
+  const speakerNames = getSpeakerNames(transcript);
+  transcript.segments.forEach((segment) => {
+    const speaker = segment.speaker ? `**${speakerNames.get(segment.speaker) || segment.speaker}** ` : "";
+    lines.push(`${speaker}\`${formatClock(segment.start)}\` ${segment.text}`, "");
+  });
+
+  return lines.join("\n");
+}
+
+function getCues(transcript: TranscriptDocument): { start: number; end: number; text: string; speaker?: string }[] {
+  if (transcript.segments.length > 0) {
+    const speakerNames = getSpeakerNames(transcript);
+    return transcript.segments.map((segment) => ({
+      start: segment.start,
+      end: Math.max(segment.end, segment.start),
+      text: segment.text,
+      speaker: segment.speaker ? speakerNames.get(segment.speaker) || segment.speaker : undefined,
+    }));
+  }
+
+  const wordCount = transcript.text.split(/\s+/).filter(Boolean).length;
+  const end = transcript.duration ?? Math.max(1, wordCount / FALLBACK_WORDS_PER_SECOND);
+  return [{ start: 0, end, text: transcript.text }];
+}
+
+function getSpeakerNames(transcript: TranscriptDocument): Map<string, string> {
+  return new Map(transcript.speakers.map((speaker) => [speaker.id, speaker.name]));
+}
+
+function formatTimestamp(seconds: number, millisecondSeparator: string): string {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${millisecondSeparator}${String(milliseconds).padStart(3, "0")}`;
+}
+
+function formatClock(seconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -0,0 +1,68 @@
+import { getFolderName } from "../config/config";
+
+export const TRANSCRIPT_SCHEMA_VERSION = 3;
+
+interface StoredTranscription {
+  schemaVersion?: number;
+  transcription?: string;
+  language?: string;
+  duration?: number;
+  segments?: TranscriptSegment[];
+  speakers?: TranscriptSpeaker[];
+  provider?: string;
+  processedAt?: string;
+}
+
+export function getTranscriptionKey(audioKey: string): string {
+  const filename = audioKey.split("/").pop() || "";
+  const pathParts = audioKey.split("/");
+  const folderName = pathParts.length > 1 && pathParts[0] ? pathParts[0] : getFolderName();
+
+  return `${folderName}/transcriptions/${filename}.json`;
+}
+
+export function parseTranscriptDocument(raw: unknown): TranscriptDocument | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const stored = raw as StoredTranscription;
+  if (typeof stored.transcription !== "string") {
+    return null;
+  }
+
+  const schemaVersion = stored.schemaVersion || 1;
+  if (schemaVersion > TRANSCRIPT_SCHEMA_VERSION) {
+    console.warn(`Transcript schema v${schemaVersion} is newer than supported v${TRANSCRIPT_SCHEMA_VERSION}`);
+  }
+
+  const segments = Array.isArray(stored.segments)
+    ? stored.segments.filter(
+        (segment) => segment && typeof segment.start === "number" && typeof segment.end === "number"
+      )
+    : [];
+
+  return {
+    schemaVersion,
+    text: stored.transcription,
+    language: stored.language,
+    duration: stored.duration,
+    segments,
+    speakers: Array.isArray(stored.speakers) ? stored.speakers.filter((speaker) => speaker && speaker.id) : [],
+    provider: stored.provider,
+    processedAt: stored.processedAt,
+  };
+}
+
+export function renameSpeakers<T extends StoredTranscription>(stored: T, names: Record<string, string>): T {
+  if (!Array.isArray(stored.speakers) || stored.speakers.length === 0) {
+    throw new Error("This transcription has no speaker information");
+  }
+
+  const speakers = stored.speakers.map((speaker, index) => {
+    const name = typeof names[speaker.id] === "string" ? names[speaker.id].trim() : "";
+    return { ...speaker, name: name || speaker.name || `Speaker ${index + 1}` };
+  });
+
+  return { ...stored, speakers };
+}
@@ -0,0 +1,194 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { StorageBackend, StoredObject } from "./storageBackend";
+import { getTranscriptionKey, parseTranscriptDocument } from "./transcriptSchema";
+
+const INDEX_VERSION = 1;
+const DEFAULT_MATCH_LIMIT = 100;
+
+interface IndexedTranscript {
+  key: string;
+  transcriptionKey: string;
+  etag?: string;
+  recordedAt?: string;
+  transcript: TranscriptDocument;
+}
+
+interface StoredIndex {
+  version: number;
+  entries: IndexedTranscript[];
+}
+
+export class TranscriptSearchIndex {
+  private readonly filePath: string;
+  private entries = new Map<string, IndexedTranscript>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as StoredIndex;
+      if (stored.version !== INDEX_VERSION || !Array.isArray(stored.entries)) {
+        console.warn(`Discarding transcript index with unsupported version ${stored.version}`);
+        return;
+      }
+
+      this.entries = new Map(stored.entries.map((entry) => [entry.key, entry]));
+      console.log(`Loaded transcript index with ${this.entries.size} transcription(s)`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn("Could not read transcript index, it will be rebuilt:", error);
+      }
+    }
+  }
+
+  get(key: string): TranscriptDocument | undefined {
+    const entry = this.entries.get(key);
+    return entry ? entry.transcript : undefined;
+  }
+
+  async remove(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      await this.save();
+    }
+  }
+
+  search(query: string, limit = DEFAULT_MATCH_LIMIT): TranscriptSearchResults {
+    const terms = tokenize(query);
+    const results: TranscriptSearchResults = { query, terms, matches: [], truncated: false };
+    if (terms.length === 0) {
+      return results;
+    }
+
+    const entries = Array.from(this.entries.values()).sort((a, b) =>
+      (b.recordedAt || "").localeCompare(a.recordedAt || "")
+    );
+
+    for (const entry of entries) {
+      const { transcript } = entry;
+      const speakerNames = new Map(transcript.speakers.map((speaker) => [speaker.id, speaker.name]));
+      const segments =
+        transcript.segments.length > 0
+          ? transcript.segments
+          : [{ id: undefined, start: 0, end: transcript.duration || 0, text: transcript.text, speaker: undefined }];
+
+      for (const segment of segments) {
+        const speaker = segment.speaker ? speakerNames.get(segment.speaker) || segment.speaker : undefined;
+        const haystack = `${speaker || ""} ${segment.text}`.toLowerCase();
+        if (!terms.every((term) => haystack.includes(term))) {
+          continue;
+        }
+
+        if (results.matches.length >= limit) {
+          results.truncated = true;
+          return results;
+        }
+
+        results.matches.push({
+          key: entry.key,
+          recordedAt: entry.recordedAt,
+          segmentId: segment.id,
+          start: segment.start,
+          end: segment.end,
+          text: segment.text,
+          speaker,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Brings the index in line with a listing of the recordings folder
+   * Only transcriptions that are new or whose ETag changed are downloaded; returns whether anything changed
+   */
+  async reconcile(storage: StorageBackend, objects: StoredObject[]): Promise<boolean> {
+    const audioByTranscriptionKey = new Map<string, { key: string; lastModified?: string }>();
+    const transcriptionObjects = new Map<string, string | undefined>();
+
+    objects.forEach((object) => {
+      if (object.key.includes("/transcriptions/")) {
+        transcriptionObjects.set(object.key, object.etag);
+      } else if (!object.key.endsWith(".json")) {
+        audioByTranscriptionKey.set(getTranscriptionKey(object.key), {
+          key: object.key,
+          lastModified: object.lastModified,
+        });
+      }
+    });
+
+    const liveKeys = new Set<string>();
+    let downloaded = 0;
+
+    for (const [transcriptionKey, etag] of transcriptionObjects) {
+      const audio = audioByTranscriptionKey.get(transcriptionKey);
+      if (!audio) {
+        continue;
+      }
+
+      liveKeys.add(audio.key);
+      const existing = this.entries.get(audio.key);
+      if (existing && etag && existing.etag === etag) {
+        continue;
+      }
+
+      try {
+        const transcript = parseTranscriptDocument(await storage.getJson<unknown>(transcriptionKey));
+        if (!transcript) {
+          liveKeys.delete(audio.key);
+          continue;
+        }
+
+        this.entries.set(audio.key, {
+          key: audio.key,
+          transcriptionKey,
+          etag,
+          recordedAt: audio.lastModified,
+          transcript: stripWords(transcript),
+        });
+        downloaded++;
+      } catch (error) {
+        console.warn(`Could not index transcription ${transcriptionKey}:`, error);
+        if (existing) {
+          liveKeys.add(audio.key);
+        }
+      }
+    }
+
+    const staleKeys = Array.from(this.entries.keys()).filter((key) => !liveKeys.has(key));
+    staleKeys.forEach((key) => this.entries.delete(key));
+
+    const changed = downloaded > 0 || staleKeys.length > 0;
+    if (changed) {
+      await this.save();
+    }
+
+    console.log(
+      `Transcript index reconciled: ${this.entries.size} indexed, ${downloaded} downloaded, ${staleKeys.length} removed`
+    );
+    return changed;
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredIndex = { version: INDEX_VERSION, entries: Array.from(this.entries.values()) };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+function tokenize(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+function stripWords(transcript: TranscriptDocument): TranscriptDocument {
+  return {
+    ...transcript,
+    segments: transcript.segments.map(({ words, ...segment }) => segment),
+  };
+}
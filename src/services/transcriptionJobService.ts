@@ -0,0 +1,169 @@
+export type TranscriptionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type TranscriptionErrorCode = "invalid-request" | "not-found" | "auth" | "network" | "timeout" | "failed";
+
+export interface TranscriptionJob {
+  id: string;
+  key: string;
+  status: TranscriptionJobStatus;
+  encrypted?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  transcriptionKey?: string;
+  wordCount?: number;
+  segmentCount?: number;
+  error?: string;
+  /** Set by the worker when the job failed */
+  errorCode?: TranscriptionErrorCode;
+}
+
+export class TranscriptionJobError extends Error {
+  readonly code: TranscriptionErrorCode;
+
+  constructor(code: TranscriptionErrorCode, message: string) {
+    super(message);
+    this.name = "TranscriptionJobError";
+    this.code = code;
+  }
+}
+
+// Every worker response carries success, and an error message when it is false
+interface WorkerResponse {
+  success: boolean;
+  error?: string;
+}
+
+interface JobCreatedResponse extends WorkerResponse {
+  jobId: string;
+  status: TranscriptionJobStatus;
+}
+
+interface JobStatusResponse extends WorkerResponse {
+  job: TranscriptionJob;
+}
+
+interface WaitOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_JOB_TIMEOUT = 30 * 60 * 1000;
+const MAX_CONSECUTIVE_POLL_ERRORS = 5;
+
+export class TranscriptionJobService {
+  private readonly workerUrl: string;
+
+  constructor(workerUrl: string) {
+    this.workerUrl = workerUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * decryptionKey is the base64 data key of an encrypted recording; the worker only keeps it for this job
+   */
+  async start(key: string, decryptionKey?: string): Promise<TranscriptionJob> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.workerUrl}/transcribe`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ key, decryptionKey }),
+      });
+    } catch (fetchError) {
+      console.error("Network error during transcription request:", fetchError);
+      const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      throw new TranscriptionJobError("network", `Failed to connect to transcription service: ${errorMessage}`);
+    }
+
+    const result = await this.parseResponse<JobCreatedResponse>(response, "Transcription request");
+    console.log(`Transcription job ${result.jobId} accepted for ${key}`);
+
+    return this.get(result.jobId);
+  }
+
+  async get(jobId: string): Promise<TranscriptionJob> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.workerUrl}/jobs/${encodeURIComponent(jobId)}`);
+    } catch (fetchError) {
+      const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      throw new TranscriptionJobError("network", `Failed to connect to transcription service: ${errorMessage}`);
+    }
+
+    const result = await this.parseResponse<JobStatusResponse>(response, "Job status request");
+    return result.job;
+  }
+
+  async waitForCompletion(
+    jobId: string,
+    onUpdate: (job: TranscriptionJob) => void,
+    options: WaitOptions = {}
+  ): Promise<TranscriptionJob> {
+    const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL;
+    const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_JOB_TIMEOUT);
+    let lastStatus: TranscriptionJobStatus | null = null;
+    let consecutiveErrors = 0;
+
+    while (Date.now() < deadline) {
+      try {
+        const job = await this.get(jobId);
+        consecutiveErrors = 0;
+
+        if (job.status !== lastStatus) {
+          lastStatus = job.status;
+          onUpdate(job);
+        }
+
+        if (job.status === "succeeded" || job.status === "failed") {
+          return job;
+        }
+      } catch (pollError) {
+        consecutiveErrors++;
+        console.warn(`Error polling transcription job ${jobId} (${consecutiveErrors}):`, pollError);
+        if (consecutiveErrors >= MAX_CONSECUTIVE_POLL_ERRORS) {
+          throw pollError;
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+
+    throw new TranscriptionJobError("timeout", `Transcription job ${jobId} timed out waiting for the worker`);
+  }
+
+  private async parseResponse<T extends WorkerResponse>(response: Response, label: string): Promise<T> {
+    let result: T;
+    try {
+      result = (await response.json()) as T;
+    } catch (jsonError) {
+      console.error("Could not parse worker response:", jsonError);
+      throw new TranscriptionJobError("failed", `${label} failed with status ${response.status}`);
+    }
+
+    if (!response.ok || !result.success) {
+      throw new TranscriptionJobError(
+        getStatusErrorCode(response.status),
+        result.error || `${label} failed with status ${response.status}`
+      );
+    }
+
+    return result;
+  }
+}
+
+function getStatusErrorCode(status: number): TranscriptionErrorCode {
+  if (status === 400) {
+    return "invalid-request";
+  }
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 404) {
+    return "not-found";
+  }
+  return "failed";
+}
@@ -0,0 +1,253 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { AudioFileSource } from "./storageBackend";
+
+export type QueueEntryStatus = "queued" | "uploading" | "failed";
+
+export interface QueueEntry {
+  id: string;
+  key: string;
+  size: number;
+  status: QueueEntryStatus;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt?: string;
+  lastError?: string;
+  segment?: AudioSegmentInfo;
+}
+
+// The queued file is handed over as-is so large recordings can be streamed rather than read into memory
+export type UploadHandler = (
+  entry: QueueEntry,
+  source: AudioFileSource,
+  progressCallback: (event: UploadProgressEvent) => void
+) => Promise<void>;
+
+interface UploadQueueOptions {
+  directory: string;
+  upload: UploadHandler;
+  onStatsChange?: (stats: UploadQueueStats) => void;
+  onProgress?: (event: UploadProgressEvent) => void;
+  onUploaded?: (entry: QueueEntry) => void;
+  onFailed?: (entry: QueueEntry, error: Error) => void;
+}
+
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export class UploadQueue {
+  private readonly directory: string;
+  private readonly options: UploadQueueOptions;
+  private entries: QueueEntry[] = [];
+  private processing = false;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: UploadQueueOptions) {
+    this.directory = options.directory;
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const names = await fs.readdir(this.directory);
+    const entries: QueueEntry[] = [];
+
+    for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+      try {
+        const entry = JSON.parse(await fs.readFile(path.join(this.directory, name), "utf-8")) as QueueEntry;
+        if (entry.status === "uploading") {
+          entry.status = "queued";
+        }
+        entries.push(entry);
+      } catch (error) {
+        console.warn(`Skipping unreadable upload queue entry ${name}:`, error);
+      }
+    }
+
+    this.entries = entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    console.log(`Upload queue loaded with ${this.entries.length} pending recording(s)`);
+
+    this.emitStats();
+    this.scheduleProcess();
+  }
+
+  async enqueue(data: Uint8Array, key: string, segment?: AudioSegmentInfo): Promise<QueueEntry> {
+    const entry: QueueEntry = {
+      id: uuidv4(),
+      key,
+      size: data.length,
+      status: "queued",
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      segment,
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.dataPath(entry), data);
+    await this.save(entry);
+
+    this.entries.push(entry);
+    console.log(`Queued ${key} for upload (${data.length} bytes)`);
+
+    this.emitStats();
+    this.scheduleProcess();
+
+    return entry;
+  }
+
+  retryNow(): void {
+    const now = new Date().toISOString();
+    this.entries.forEach((entry) => {
+      if (entry.status === "failed") {
+        entry.nextAttemptAt = now;
+      }
+    });
+    this.scheduleProcess();
+  }
+
+  getStats(): UploadQueueStats {
+    const stats: UploadQueueStats = { queued: 0, uploading: 0, failed: 0 };
+
+    this.entries.forEach((entry) => {
+      stats[entry.status]++;
+      if (entry.status === "failed" && entry.nextAttemptAt) {
+        if (!stats.nextRetryAt || entry.nextAttemptAt < stats.nextRetryAt) {
+          stats.nextRetryAt = entry.nextAttemptAt;
+        }
+      }
+    });
+
+    return stats;
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // process() is started without being awaited from several places, so its failures are logged here
+  private scheduleProcess(): void {
+    this.process().catch((error) => {
+      console.error("Upload queue processing failed:", error);
+    });
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    this.stop();
+
+    try {
+      let entry = this.nextDueEntry();
+      while (entry) {
+        await this.uploadEntry(entry);
+        entry = this.nextDueEntry();
+      }
+    } finally {
+      this.processing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private nextDueEntry(): QueueEntry | undefined {
+    const now = Date.now();
+    return this.entries.find(
+      (entry) =>
+        entry.status === "queued" ||
+        (entry.status === "failed" && (!entry.nextAttemptAt || new Date(entry.nextAttemptAt).getTime() <= now))
+    );
+  }
+
+  private async uploadEntry(entry: QueueEntry): Promise<void> {
+    entry.status = "uploading";
+    entry.attempts++;
+    this.emitStats();
+
+    try {
+      await this.save(entry);
+      const filePath = this.dataPath(entry);
+      const { size } = await fs.stat(filePath);
+      await this.options.upload(entry, { filePath, size }, (event) => {
+        if (this.options.onProgress) {
+          this.options.onProgress(event);
+        }
+      });
+
+      await this.remove(entry);
+      console.log(`Upload queue delivered ${entry.key} after ${entry.attempts} attempt(s)`);
+
+      if (this.options.onUploaded) {
+        this.options.onUploaded(entry);
+      }
+    } catch (error) {
+      const uploadError = error instanceof Error ? error : new Error(String(error));
+      const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, entry.attempts - 1), MAX_RETRY_DELAY);
+
+      entry.status = "failed";
+      entry.lastError = uploadError.message;
+      entry.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      try {
+        await this.save(entry);
+      } catch (saveError) {
+        // The entry still retries from memory; only its on-disk state lags behind
+        console.error(`Could not save upload queue entry for ${entry.key}:`, saveError);
+      }
+
+      console.error(`Upload of ${entry.key} failed (attempt ${entry.attempts}), retrying in ${delay / 1000}s`);
+
+      if (this.options.onFailed) {
+        this.options.onFailed(entry, uploadError);
+      }
+    } finally {
+      this.emitStats();
+    }
+  }
+
+  private scheduleRetry(): void {
+    const { nextRetryAt } = this.getStats();
+    if (!nextRetryAt) {
+      return;
+    }
+
+    const delay = Math.max(new Date(nextRetryAt).getTime() - Date.now(), 0);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.scheduleProcess();
+    }, delay);
+  }
+
+  private emitStats(): void {
+    if (this.options.onStatsChange) {
+      this.options.onStatsChange(this.getStats());
+    }
+  }
+
+  private async save(entry: QueueEntry): Promise<void> {
+    const statePath = this.statePath(entry);
+    await fs.writeFile(`${statePath}.tmp`, JSON.stringify(entry, null, 2));
+    await fs.rename(`${statePath}.tmp`, statePath);
+  }
+
+  private async remove(entry: QueueEntry): Promise<void> {
+    this.entries = this.entries.filter((queued) => queued.id !== entry.id);
+    await Promise.all([
+      fs.rm(this.statePath(entry), { force: true }),
+      fs.rm(this.dataPath(entry), { force: true }),
+    ]);
+  }
+
+  private statePath(entry: QueueEntry): string {
+    return path.join(this.directory, `${entry.id}.json`);
+  }
+
+  private dataPath(entry: QueueEntry): string {
+    return path.join(this.directory, `${entry.id}${path.extname(entry.key) || ".webm"}`);
+  }
+}
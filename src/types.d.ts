@@ -3,11 +3,364 @@ interface UploadProgressEvent {
   progress: number;
   message: string;
   key?: string;
+  bytesUploaded?: number;
+  totalBytes?: number;
 }
 
+type RecordingTrack = 'microphone' | 'system';
+
+// A recording's data key, wrapped with the local key of the given version
+interface EncryptionEnvelope {
+  keyVersion: number;
+  wrappedKey: string;
+}
+
+interface AudioSegmentInfo {
+  sessionId: string;
+  index: number;
+  startedAt: string;
+  durationMs: number;
+  isFinal: boolean;
+  mimeType?: string;
+  track?: RecordingTrack;
+  recordingId?: string;
+  trimmedSilenceMs?: number;
+  encryption?: EncryptionEnvelope;
+}
+
+// A segment while it is being recorded; its duration is known once it stops
+type PendingSegment = Omit<AudioSegmentInfo, 'durationMs'>;
+
+interface RecordingChunk {
+  sessionId: string;
+  index: number;
+  data: Uint8Array;
+}
+
+// Recordings left on disk by a run that crashed or quit mid-recording
+interface UnfinishedRecording {
+  sessionId: string;
+  startedAt: string;
+  track?: RecordingTrack;
+  segments: number;
+  size: number;
+}
+
+type RecordingSessionStatus = 'recording' | 'uploaded' | 'concatenating' | 'ready' | 'failed';
+
+interface RecordingSessionSegment {
+  index: number;
+  key: string;
+  startedAt: string;
+  durationMs: number;
+  size: number;
+  trimmedSilenceMs?: number;
+  encryption?: EncryptionEnvelope;
+}
+
+interface RecordingSession {
+  id: string;
+  startedAt: string;
+  endedAt?: string;
+  segmentKeys: string[];
+  segments: RecordingSessionSegment[];
+  totalSegments?: number;
+  totalDurationMs: number;
+  totalSize: number;
+  status: RecordingSessionStatus;
+  assetKey?: string;
+  assetEncryption?: EncryptionEnvelope;
+  error?: string;
+  updatedAt: string;
+  track?: RecordingTrack;
+  recordingId?: string;
+  trimmedSilenceMs?: number;
+}
+
+interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  words?: TranscriptWord[];
+}
+
+interface TranscriptSpeaker {
+  id: string;
+  name: string;
+}
+
+interface TranscriptDocument {
+  schemaVersion: number;
+  text: string;
+  language?: string;
+  duration?: number;
+  segments: TranscriptSegment[];
+  speakers: TranscriptSpeaker[];
+  provider?: string;
+  processedAt?: string;
+}
+
+interface AudioHistoryQuery {
+  cursor?: string;
+  pageSize?: number;
+  from?: string;
+  to?: string;
+  hasTranscription?: boolean;
+}
+
+interface AudioFile {
+  key: string;
+  timestamp: string;
+  size: number;
+  durationMs?: number;
+  hasTranscription?: boolean;
+  title?: string;
+  tags?: string[];
+  transcription?: string;
+  transcript?: TranscriptDocument;
+  session?: RecordingSession;
+}
+
+interface AudioHistoryPage {
+  items: AudioFile[];
+  nextCursor?: string;
+  total: number;
+  query: AudioHistoryQuery;
+}
+
+interface TranscriptSearchMatch {
+  key: string;
+  recordedAt?: string;
+  segmentId?: number;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+interface TranscriptSearchResults {
+  query: string;
+  terms: string[];
+  matches: TranscriptSearchMatch[];
+  truncated: boolean;
+}
+
+interface UploadQueueStats {
+  queued: number;
+  uploading: number;
+  failed: number;
+  nextRetryAt?: string;
+}
+
+type RecordingCommand = 'start' | 'stop' | 'pause';
+
+type RecordingActivity = 'idle' | 'recording' | 'paused';
+
+interface RecordingShortcuts {
+  start: string;
+  stop: string;
+  pause: string;
+}
+
+interface ShortcutStatus {
+  shortcuts: RecordingShortcuts;
+  errors: Partial<Record<RecordingCommand, string>>;
+}
+
+type StorageBackendType = 'r2' | 's3' | 'filesystem';
+
+type RecordingEncryptionMode = 'off' | 'aes-256-gcm';
+
+interface AppSettings {
+  storageBackend: StorageBackendType;
+  accountId: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  folderName: string;
+  workerUrl: string;
+  endpoint: string;
+  region: string;
+  localPath: string;
+  encryption: RecordingEncryptionMode;
+  /** Retries per S3 request; empty uses the client default */
+  maxRetries: string;
+  /** Seconds; empty uses the client default */
+  requestTimeout: string;
+  connectTimeout: string;
+}
+
+type SettingsErrors = Partial<Record<keyof AppSettings, string>>;
+
+type SecretSettingKey = 'accessKeyId' | 'secretAccessKey';
+
+type PublicSettings = Omit<AppSettings, SecretSettingKey>;
+
+interface SettingsStatus {
+  settings: PublicSettings;
+  storedSecrets: Record<SecretSettingKey, boolean>;
+  envMigrationAvailable: boolean;
+  missing: string[];
+  errors?: SettingsErrors;
+  saved?: boolean;
+}
+
+interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  /** Set when the settings did not validate, so the form can show what to fix */
+  invalidSettings?: SettingsStatus;
+}
+
+interface StatusUpdate {
+  message: string;
+  isError: boolean;
+}
+
+type IpcErrorCode =
+  | 'invalid-request'
+  | 'not-configured'
+  | 'not-found'
+  | 'unsupported'
+  | 'auth'
+  | 'network'
+  | 'timeout'
+  | 'failed';
+
+interface IpcError {
+  code: IpcErrorCode;
+  message: string;
+}
+
+// Invoke channels never reject; failures come back as a value so their code survives the context bridge
+type IpcResult<T> = { ok: true; value: T } | { ok: false; error: IpcError };
+
+interface QueuedSegment {
+  key: string;
+  size: number;
+  /** Settings still missing; the segment waits in the local upload queue until they are entered */
+  missingConfig: string[];
+}
+
+interface TranscriptionResult {
+  key: string;
+  jobId: string;
+  wordCount: number;
+  segmentCount: number;
+}
+
+interface TranscriptionProgress {
+  key: string;
+  progress: number;
+  message: string;
+  status?: 'queued' | 'running' | 'succeeded' | 'failed';
+}
+
+// Encrypted recordings are decrypted in the main process, since a signed URL would only serve ciphertext
+type PlaybackSource = { url: string } | { data: Uint8Array<ArrayBuffer>; mimeType: string };
+
+interface RecordingMetadataRequest {
+  key: string;
+  title?: string;
+  tags?: string[];
+}
+
+interface SpeakerRenameRequest {
+  key: string;
+  speakers: Record<string, string>;
+}
+
+interface TranscriptExportRequest {
+  key: string;
+  format: string;
+}
+
+// Request and response of each ipcMain.handle channel
+interface IpcInvokeChannels {
+  'upload-segment': { request: AudioSegmentInfo; response: QueuedSegment | null };
+  'get-audio-history': { request: AudioHistoryQuery | undefined; response: AudioHistoryPage };
+  'delete-audio': { request: string; response: void };
+  'delete-session': { request: string; response: void };
+  'transcribe-audio': { request: string; response: TranscriptionResult };
+  'get-playback-url': { request: string; response: PlaybackSource };
+  'update-recording-metadata': { request: RecordingMetadataRequest; response: void };
+  'rename-speakers': { request: SpeakerRenameRequest; response: void };
+  /** Responds with the saved file, or null when the save dialog was cancelled */
+  'export-transcript': { request: TranscriptExportRequest; response: string | null };
+  'search-transcripts': { request: string; response: TranscriptSearchResults };
+  'get-unfinished-recordings': { request: void; response: UnfinishedRecording[] };
+  /** Responds with the number of recordings queued for upload */
+  'recover-recordings': { request: void; response: number };
+  'discard-recordings': { request: void; response: void };
+  'get-settings': { request: void; response: SettingsStatus };
+  'save-settings': { request: Partial<AppSettings>; response: SettingsStatus };
+  'test-connection': { request: Partial<AppSettings>; response: ConnectionTestResult };
+  'migrate-env-credentials': { request: void; response: SettingsStatus };
+  'get-shortcuts': { request: void; response: ShortcutStatus };
+  'update-shortcuts': { request: RecordingShortcuts; response: ShortcutStatus };
+}
+
+type IpcInvokeChannel = keyof IpcInvokeChannels;
+type IpcRequest<C extends IpcInvokeChannel> = IpcInvokeChannels[C]['request'];
+type IpcResponse<C extends IpcInvokeChannel> = IpcInvokeChannels[C]['response'];
+
+// Payload of each one-way message from the renderer
+interface IpcSendChannels {
+  'recording-segment-start': PendingSegment;
+  'recording-chunk': RecordingChunk;
+  'recording-state': RecordingActivity;
+  'concatenate-session': string;
+  'retry-uploads': void;
+}
+
+type IpcSendChannel = keyof IpcSendChannels;
+
+// Payload of each message the main process pushes without being asked
+interface IpcPushChannels {
+  'upload-status': StatusUpdate;
+  'upload-progress': UploadProgressEvent;
+  'upload-queue-status': UploadQueueStats;
+  'audio-history': AudioHistoryPage;
+  'transcription-progress': TranscriptionProgress;
+  'recording-command': RecordingCommand;
+  'shortcuts': ShortcutStatus;
+}
+
+type IpcPushChannel = keyof IpcPushChannels;
+
 interface ElectronAPI {
-  send: (channel: string, data: any) => void;
-  receive: (channel: string, func: (...args: any[]) => void) => (() => void) | undefined;
+  /** Hands a finished segment from the spool to the upload queue; null when nothing was captured */
+  uploadSegment: (segment: AudioSegmentInfo) => Promise<IpcResult<QueuedSegment | null>>;
+  getAudioHistory: (query?: AudioHistoryQuery) => Promise<IpcResult<AudioHistoryPage>>;
+  deleteAudio: (key: string) => Promise<IpcResult<void>>;
+  deleteSession: (sessionId: string) => Promise<IpcResult<void>>;
+  /** Resolves once the transcription job has finished; progress arrives on transcription-progress */
+  transcribeAudio: (key: string) => Promise<IpcResult<TranscriptionResult>>;
+  getPlaybackUrl: (key: string) => Promise<IpcResult<PlaybackSource>>;
+  updateRecordingMetadata: (request: RecordingMetadataRequest) => Promise<IpcResult<void>>;
+  renameSpeakers: (request: SpeakerRenameRequest) => Promise<IpcResult<void>>;
+  exportTranscript: (request: TranscriptExportRequest) => Promise<IpcResult<string | null>>;
+  searchTranscripts: (query: string) => Promise<IpcResult<TranscriptSearchResults>>;
+  getUnfinishedRecordings: () => Promise<IpcResult<UnfinishedRecording[]>>;
+  recoverRecordings: () => Promise<IpcResult<number>>;
+  discardRecordings: () => Promise<IpcResult<void>>;
+  getSettings: () => Promise<IpcResult<SettingsStatus>>;
+  saveSettings: (input: Partial<AppSettings>) => Promise<IpcResult<SettingsStatus>>;
+  testConnection: (input: Partial<AppSettings>) => Promise<IpcResult<ConnectionTestResult>>;
+  migrateEnvCredentials: () => Promise<IpcResult<SettingsStatus>>;
+  getShortcuts: () => Promise<IpcResult<ShortcutStatus>>;
+  updateShortcuts: (shortcuts: RecordingShortcuts) => Promise<IpcResult<ShortcutStatus>>;
+  send: <C extends IpcSendChannel>(channel: C, payload: IpcSendChannels[C]) => void;
+  /** Returns a function that removes the listener */
+  receive: <C extends IpcPushChannel>(channel: C, listener: (payload: IpcPushChannels[C]) => void) => () => void;
 }
 
 interface Window {